@@ -0,0 +1,60 @@
+import { Fr, GrumpkinScalar, type AccountManager, type PXE } from '@aztec/aztec.js';
+import { randomBytes } from '@aztec/foundation/crypto';
+import { getEcdsaKAccount, getEcdsaRAccount } from '@aztec/accounts/ecdsa/lazy';
+import { getSchnorrAccount } from '@aztec/accounts/schnorr/lazy';
+
+export type AccountType = 'schnorr' | 'ecdsa-r1' | 'ecdsa-k1';
+
+// Accounts stored before the type was recorded were all created as ECDSA secp256r1
+export const DEFAULT_ACCOUNT_TYPE: AccountType = 'ecdsa-r1';
+
+export const ACCOUNT_TYPES: { type: AccountType; label: string; description: string }[] = [
+  { type: 'ecdsa-r1', label: 'ECDSA (secp256r1)', description: 'The curve used by passkeys and secure enclaves' },
+  { type: 'ecdsa-k1', label: 'ECDSA (secp256k1)', description: 'The curve used by Ethereum keys' },
+  { type: 'schnorr', label: 'Schnorr (Grumpkin)', description: 'The cheapest signature to verify in a circuit' },
+];
+
+/**
+ * Keys and type needed to rebuild an account. The signing key is hex: 32 raw bytes for ECDSA,
+ * a Grumpkin scalar for Schnorr.
+ */
+export interface AccountKeys {
+  type?: AccountType;
+  signingKey: string;
+  secretKey: string;
+  salt: string;
+}
+
+/**
+ * Check that a value names a supported account type
+ */
+export function isAccountType(value: unknown): value is AccountType {
+  return ACCOUNT_TYPES.some(entry => entry.type === value);
+}
+
+/**
+ * Generate a signing key for an account type, encoded as stored in AccountData
+ */
+export function createSigningKey(type: AccountType): string {
+  return type === 'schnorr' ? GrumpkinScalar.random().toString() : randomBytes(32).toString('hex');
+}
+
+/**
+ * Build the account manager for stored keys, treating keys without a type as ECDSA-R1
+ */
+export async function getAccountManager(pxe: PXE, keys: AccountKeys): Promise<AccountManager> {
+  const type = keys.type ?? DEFAULT_ACCOUNT_TYPE;
+  const secretKey = Fr.fromString(keys.secretKey);
+  const salt = Fr.fromString(keys.salt);
+
+  switch (type) {
+    case 'schnorr':
+      return getSchnorrAccount(pxe, secretKey, GrumpkinScalar.fromString(keys.signingKey), salt);
+    case 'ecdsa-r1':
+      return getEcdsaRAccount(pxe, secretKey, Buffer.from(keys.signingKey, 'hex'), salt);
+    case 'ecdsa-k1':
+      return getEcdsaKAccount(pxe, secretKey, Buffer.from(keys.signingKey, 'hex'), salt);
+    default:
+      throw new Error(`Unsupported account type ${type}`);
+  }
+}
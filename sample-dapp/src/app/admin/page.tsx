@@ -0,0 +1,355 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { useWallet } from '../../hooks/useWallet';
+import AdminPanel from '../../components/AdminPanel';
+import PasswordPrompt from '../../components/PasswordPrompt';
+import FeeSettings from '../../components/FeeSettings';
+import { electionRegistry, type ElectionDeployment } from '../../contracts/electionRegistry';
+import { getVotingMethod } from '../../contracts/ballot';
+import {
+  ElectionState,
+  computeVotingStatus,
+  type ElectionAdmins,
+  type VotingWindow,
+} from '../../contracts/privateVotingContract';
+import { DEFAULT_ELECTIONS } from '../../constants';
+
+type AdminRole = 'admin' | 'co-admin' | 'pending-admin' | 'none';
+
+export default function AdminConsole() {
+  const [elections, setElections] = useState<ElectionDeployment[]>(DEFAULT_ELECTIONS);
+  // Null until an election has been created or imported
+  const [selectedElectionId, setSelectedElectionId] = useState<string | null>(DEFAULT_ELECTIONS[0]?.id ?? null);
+  const [admins, setAdmins] = useState<ElectionAdmins | null>(null);
+  const [activeAtBlock, setActiveAtBlock] = useState<bigint | null>(null);
+  const [votingWindow, setVotingWindow] = useState<VotingWindow | null>(null);
+  const [electionState, setElectionState] = useState<ElectionState | null>(null);
+  const [round, setRound] = useState<bigint | null>(null);
+  const [currentBlock, setCurrentBlock] = useState<number | null>(null);
+  const [ballotMatches, setBallotMatches] = useState<boolean | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [isExporting, setIsExporting] = useState(false);
+  const [statusMessage, setStatusMessage] = useState('');
+  const [isUnlocking, setIsUnlocking] = useState(false);
+
+  const { walletState, isLoading, connectAccount, getBlockNumber, setFeeStrategy, isInitialized, isConnected } = useWallet();
+
+  const privateVotingContract = selectedElectionId ? electionRegistry.getHandler(selectedElectionId) : null;
+  const election = privateVotingContract ? privateVotingContract.getElection() : null;
+
+  const showStatus = (message: string) => {
+    setStatusMessage(message);
+    setTimeout(() => setStatusMessage(''), 5000);
+  };
+
+  const handleUnlock = async (password: string) => {
+    const account = await connectAccount(password);
+    if (account) {
+      setIsUnlocking(false);
+    } else {
+      showStatus('Could not unlock the stored account');
+    }
+  };
+
+  // The voting page links here with ?election=<id>
+  useEffect(() => {
+    const stored = electionRegistry.listElections();
+    setElections(stored);
+    const requested = new URLSearchParams(window.location.search).get('election');
+    if (requested && stored.some(entry => entry.id === requested)) {
+      setSelectedElectionId(requested);
+    } else {
+      setSelectedElectionId(current => current ?? stored[0]?.id ?? null);
+    }
+  }, []);
+
+  const loadAdminData = async () => {
+    if (!privateVotingContract) return;
+
+    setLoadError(null);
+    try {
+      await privateVotingContract.initialize();
+      const [loadedAdmins, activeAt, loadedWindow, state, currentRound, matches] = await Promise.all([
+        privateVotingContract.getAdmins(),
+        privateVotingContract.getActiveAtBlock(),
+        privateVotingContract.getVotingWindow(),
+        privateVotingContract.getElectionState(),
+        privateVotingContract.getRound(),
+        privateVotingContract.verifyBallot(),
+      ]);
+      setAdmins(loadedAdmins);
+      setActiveAtBlock(activeAt);
+      setVotingWindow(loadedWindow);
+      setElectionState(state);
+      setRound(currentRound);
+      setBallotMatches(matches);
+    } catch (error) {
+      console.error('Failed to load admin data:', error);
+      setAdmins(null);
+      setLoadError(error instanceof Error ? error.message : 'Unknown error');
+    }
+  };
+
+  useEffect(() => {
+    setAdmins(null);
+    if (isConnected) {
+      loadAdminData();
+    }
+  }, [isConnected, selectedElectionId]);
+
+  useEffect(() => {
+    if (!isInitialized) return;
+    getBlockNumber().then(setCurrentBlock).catch(error => console.error('Failed to get block number:', error));
+  }, [isInitialized, getBlockNumber, electionState]);
+
+  const isSameAddress = (address: { toString(): string } | null | undefined) =>
+    !!address && !!walletState.address && address.toString().toLowerCase() === walletState.address.toLowerCase();
+
+  const role: AdminRole = !admins
+    ? 'none'
+    : isSameAddress(admins.admin)
+      ? 'admin'
+      : admins.coAdmins.some(isSameAddress)
+        ? 'co-admin'
+        : isSameAddress(admins.pendingAdmin) ? 'pending-admin' : 'none';
+
+  const votingStatus = votingWindow && currentBlock !== null && electionState !== null
+    ? computeVotingStatus(votingWindow, electionState, currentBlock)
+    : null;
+
+  const handleExportResults = async () => {
+    if (!privateVotingContract || !election) return;
+
+    setIsExporting(true);
+    try {
+      const method = getVotingMethod(election.ballot);
+      const results: Record<string, unknown> = {
+        election: election.id,
+        label: election.label,
+        address: election.address,
+        ballot: election.ballot,
+        round: round?.toString() ?? null,
+        state: electionState !== null ? ElectionState[electionState] : null,
+        blockNumber: await getBlockNumber(),
+      };
+
+      if (method === 'ranked') {
+        const runoff = await privateVotingContract.getInstantRunoffResult();
+        results.instantRunoff = {
+          winner: runoff.winner,
+          totalWeight: runoff.totalWeight.toString(),
+          rounds: runoff.rounds.map(runoffRound => ({
+            ...runoffRound,
+            exhausted: runoffRound.exhausted.toString(),
+            tallies: Object.keys(runoffRound.tallies).reduce<Record<string, string>>((tallies, candidateId) => {
+              tallies[candidateId] = runoffRound.tallies[Number(candidateId)].toString();
+              return tallies;
+            }, {}),
+          })),
+        };
+      } else {
+        const { tallies } = await privateVotingContract.getAllTallies(
+          election.ballot.candidates.map(candidate => candidate.id)
+        );
+        // Sealed tallies are exported as null until every ballot is revealed
+        results.tallies = tallies === null
+          ? null
+          : election.ballot.candidates.reduce<Record<string, string>>((exported, candidate) => {
+              exported[candidate.id] = tallies[candidate.id].toString();
+              return exported;
+            }, {});
+      }
+
+      const blob = new Blob([JSON.stringify(results, null, 2)], { type: 'application/json' });
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `${election.id}-results.json`;
+      link.click();
+      URL.revokeObjectURL(url);
+      showStatus('Results exported');
+    } catch (error) {
+      console.error('Failed to export results:', error);
+      showStatus('Failed to export results: ' + (error instanceof Error ? error.message : 'Unknown error'));
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const metadataRows: Array<[string, string]> = !election ? [] : [
+    ['Contract', election.address],
+    ['Deployer', election.deployer],
+    ['Deploy transaction', election.txHash ?? 'Unknown'],
+    ['Ballot', `${election.ballot.title} · ${election.ballot.candidates.length} candidates · ${getVotingMethod(election.ballot)}`],
+    ['Ballot hash', ballotMatches === null ? 'Checking...' : ballotMatches ? 'Matches on-chain hash' : 'Does not match on-chain hash'],
+    ['Voters', election.voterRoot ? `Allowlist with root ${election.voterRoot}${election.weighted ? ', weighted' : ''}` : 'Open to every account'],
+    ['Tally', election.sealed ? 'Sealed until the vote ends' : 'Public'],
+    ['Voting window', votingWindow ? `Blocks ${votingWindow.startBlock} to ${votingWindow.endBlock}` : 'Loading...'],
+    ['Active at block', activeAtBlock !== null ? activeAtBlock.toString() : 'Loading...'],
+    ['Round', round !== null ? round.toString() : 'Loading...'],
+    ['State', electionState !== null ? ElectionState[electionState] : 'Loading...'],
+    ['Voting', votingStatus ?? 'Loading...'],
+  ];
+
+  return (
+    <main className="min-h-screen bg-gradient-to-br from-gray-50 to-gray-100 dark:from-gray-900 dark:to-gray-800">
+      <nav className="bg-white dark:bg-gray-800 shadow-sm border-b border-gray-200 dark:border-gray-700">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex justify-between items-center h-16">
+            <div className="flex items-center space-x-4">
+              <h1 className="text-xl font-bold text-gray-900 dark:text-white">
+                Election Admin
+              </h1>
+              {elections.length > 0 && (
+                <select
+                  value={selectedElectionId ?? ''}
+                  onChange={(e) => setSelectedElectionId(e.target.value)}
+                  className="bg-gray-50 dark:bg-gray-700 border border-gray-200 dark:border-gray-600 text-gray-900 dark:text-white text-sm rounded-md px-2 py-1"
+                >
+                  {elections.map((entry) => (
+                    <option key={entry.id} value={entry.id}>
+                      {entry.label}
+                    </option>
+                  ))}
+                </select>
+              )}
+            </div>
+            <div className="flex items-center space-x-4">
+              {walletState.address && (
+                <div className="text-sm text-gray-600 dark:text-gray-300">
+                  {walletState.address.slice(0, 6)}...{walletState.address.slice(-4)}
+                </div>
+              )}
+              <Link href="/" className="text-sm text-blue-600 dark:text-blue-400 hover:underline">
+                Back to voting
+              </Link>
+            </div>
+          </div>
+        </div>
+      </nav>
+
+      <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-8">
+        {!privateVotingContract || !election ? (
+          <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-6 text-center">
+            <p className="text-gray-600 dark:text-gray-400 mb-4">
+              No elections yet.
+            </p>
+            <Link href="/" className="text-blue-600 dark:text-blue-400 hover:underline">
+              Create or import an election on the voting page
+            </Link>
+          </div>
+        ) : !isConnected ? (
+          <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-6 text-center">
+            <p className="text-gray-600 dark:text-gray-400 mb-4">
+              Connect the election admin&apos;s account to manage this election.
+            </p>
+            {walletState.selectedAccount ? (
+              <button
+                onClick={() => setIsUnlocking(true)}
+                disabled={isLoading || !isInitialized}
+                className="bg-purple-600 hover:bg-purple-700 disabled:bg-gray-400 disabled:cursor-not-allowed text-white px-6 py-3 rounded-md font-medium transition-colors"
+              >
+                {isLoading ? 'Connecting...' : 'Connect Account'}
+              </button>
+            ) : (
+              <Link href="/" className="text-blue-600 dark:text-blue-400 hover:underline">
+                Create or connect an account on the voting page
+              </Link>
+            )}
+          </div>
+        ) : loadError ? (
+          <div className="bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg p-4">
+            <p className="text-red-800 dark:text-red-200 text-sm text-center">
+              Failed to load election admin data: {loadError}
+            </p>
+          </div>
+        ) : !admins ? (
+          <p className="text-center text-gray-600 dark:text-gray-400">Loading election admins...</p>
+        ) : role === 'none' ? (
+          <div className="bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg p-6 text-center space-y-2">
+            <p className="text-red-800 dark:text-red-200 font-medium">
+              This account is not an admin of &quot;{election.label}&quot;
+            </p>
+            <p className="text-red-700 dark:text-red-300 text-sm">
+              Only the on-chain admin can use this console. The current admin is
+            </p>
+            <p className="text-red-700 dark:text-red-300 text-xs font-mono break-all">
+              {admins.admin.toString()}
+            </p>
+          </div>
+        ) : (
+          <>
+            {role === 'admin' ? (
+              <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-6">
+                <div className="flex items-center justify-between mb-6">
+                  <h2 className="text-2xl font-bold text-gray-900 dark:text-white">
+                    {election.label}
+                  </h2>
+                  <button
+                    onClick={handleExportResults}
+                    disabled={isExporting}
+                    className="bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400 disabled:cursor-not-allowed text-white px-4 py-2 rounded-md text-sm font-medium transition-colors"
+                  >
+                    {isExporting ? 'Exporting...' : 'Export Results'}
+                  </button>
+                </div>
+                <dl className="grid grid-cols-1 sm:grid-cols-3 gap-x-4 gap-y-3 text-sm">
+                  {metadataRows.map(([label, value]) => (
+                    <div key={label} className="sm:col-span-3 grid grid-cols-1 sm:grid-cols-3 gap-x-4">
+                      <dt className="text-gray-500 dark:text-gray-400">{label}</dt>
+                      <dd className="sm:col-span-2 text-gray-900 dark:text-white break-all">{value}</dd>
+                    </div>
+                  ))}
+                </dl>
+              </div>
+            ) : (
+              <div className="bg-yellow-50 dark:bg-yellow-900/20 border border-yellow-200 dark:border-yellow-800 rounded-lg p-4">
+                <p className="text-yellow-800 dark:text-yellow-200 text-sm text-center">
+                  {role === 'co-admin'
+                    ? 'As a co-admin you can approve ending the vote. Only the admin can export results.'
+                    : 'An admin transfer to this account is pending. Accept it to manage the election.'}
+                </p>
+              </div>
+            )}
+
+            <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-4">
+              <FeeSettings strategy={walletState.feeStrategy} disabled={isLoading} onChange={setFeeStrategy} />
+            </div>
+
+            <AdminPanel
+              handler={privateVotingContract}
+              connectedAddress={walletState.address}
+              electionState={electionState}
+              onUpdated={loadAdminData}
+              onStatus={showStatus}
+            />
+          </>
+        )}
+
+        {statusMessage && (
+          <div className="bg-blue-50 dark:bg-blue-900/20 border border-blue-200 dark:border-blue-800 rounded-lg p-4">
+            <p className="text-blue-800 dark:text-blue-200 text-center font-medium">
+              {statusMessage}
+            </p>
+          </div>
+        )}
+      </div>
+
+      {isUnlocking && walletState.selectedAccount && (
+        <PasswordPrompt
+          title="Unlock Account"
+          description={walletState.selectedAccount.encrypted
+            ? `Enter the password for ${walletState.selectedAccount.address.slice(0, 10)}...`
+            : 'This account was saved unencrypted. Choose a password to encrypt it.'}
+          submitLabel={walletState.selectedAccount.encrypted ? 'Unlock' : 'Encrypt and Connect'}
+          confirm={!walletState.selectedAccount.encrypted}
+          isSubmitting={isLoading}
+          onSubmit={handleUnlock}
+          onCancel={() => setIsUnlocking(false)}
+        />
+      )}
+    </main>
+  );
+}
@@ -1,30 +1,63 @@
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import { useWallet } from '../hooks/useWallet';
-import { privateVotingContract } from '../contracts/privateVotingContract';
+import { useElectionResults } from '../hooks/useElectionResults';
+import { electionRegistry, type ElectionDeployment } from '../contracts/electionRegistry';
+import { DEFAULT_ELECTIONS } from '../constants';
+import Link from 'next/link';
+import CreateElection from '../components/CreateElection';
+import PasswordPrompt from '../components/PasswordPrompt';
+import AccountPicker from '../components/AccountPicker';
+import FeeSettings from '../components/FeeSettings';
+import type { StoredAccountInfo } from '../wallet-browser';
+import { ACCOUNT_TYPES, DEFAULT_ACCOUNT_TYPE, type AccountType } from '../accountTypes';
+import { describeFeeStrategy } from '../fees';
+import InstantRunoffRounds from '../components/InstantRunoffRounds';
+import RankedBallotForm from '../components/RankedBallotForm';
+import { MAX_APPROVALS } from '../contracts/approvalVoting';
+import { getVotingMethod } from '../contracts/ballot';
+import {
+  ElectionState,
+  computeVotingStatus,
+  type ElectionAdmins,
+  type VoteReceipt,
+} from '../contracts/privateVotingContract';
 
 interface Candidate {
   id: number;
   name: string;
+  description?: string;
   votes: number;
 }
 
 export default function Home() {
-  const [candidates, setCandidates] = useState<Candidate[]>([
-    { id: 1, name: 'Candidate 1', votes: 0 },
-    { id: 2, name: 'Candidate 2', votes: 0 },
-    { id: 3, name: 'Candidate 3', votes: 0 },
-    { id: 4, name: 'Candidate 4', votes: 0 },
-    { id: 5, name: 'Candidate 5', votes: 0 },
-  ]);
-  
   const [selectedCandidate, setSelectedCandidate] = useState<number | null>(null);
+  const [approvedCandidates, setApprovedCandidates] = useState<number[]>([]);
+  const [rankings, setRankings] = useState<number[]>([]);
   const [statusMessage, setStatusMessage] = useState('');
   const [showSecretKey, setShowSecretKey] = useState(false);
+  // Creating an account sets the keystore password; connecting a stored one unlocks it
+  const [isCreatingAccount, setIsCreatingAccount] = useState(false);
+  const [newAccountType, setNewAccountType] = useState<AccountType>(DEFAULT_ACCOUNT_TYPE);
+  const [unlockTarget, setUnlockTarget] = useState<StoredAccountInfo | null>(null);
+  // Backups are sealed with their own password, asked for when exporting and importing
+  const [isExportingBackup, setIsExportingBackup] = useState(false);
+  const [backupToImport, setBackupToImport] = useState<{ fileName: string; json: string } | null>(null);
+  const backupInput = useRef<HTMLInputElement>(null);
+  const witnessInput = useRef<HTMLInputElement>(null);
   const [isVoting, setIsVoting] = useState(false);
   const [balance, setBalance] = useState<string>('');
-  const [voteEnded, setVoteEnded] = useState<boolean>(false);
+  const [isEligible, setIsEligible] = useState<boolean>(true);
+  const [voteWeight, setVoteWeight] = useState<bigint | null>(null);
+  const [hasVoted, setHasVoted] = useState<boolean>(false);
+  const [voteReceipt, setVoteReceipt] = useState<VoteReceipt | null>(null);
+  const [isChangingVote, setIsChangingVote] = useState<boolean>(false);
+  const [electionAdmins, setElectionAdmins] = useState<ElectionAdmins | null>(null);
+  const [isRevealing, setIsRevealing] = useState<boolean>(false);
+  const [elections, setElections] = useState<ElectionDeployment[]>(DEFAULT_ELECTIONS);
+  // Null until an election has been created or imported
+  const [selectedElectionId, setSelectedElectionId] = useState<string | null>(DEFAULT_ELECTIONS[0]?.id ?? null);
 
   // Use the real Aztec wallet
   const {
@@ -33,14 +66,51 @@ export default function Home() {
     error,
     initialize,
     createAccount,
-    connectAccount,
+    switchAccount,
+    renameAccount,
+    removeAccount,
+    exportAccount,
+    importAccount,
+    setFeeStrategy,
     connectTestAccount,
     disconnectAccount,
     getBalance,
+    isNodeConnected,
     isInitialized,
     isConnected,
   } = useWallet();
 
+  const privateVotingContract = selectedElectionId ? electionRegistry.getHandler(selectedElectionId) : null;
+  const election = privateVotingContract ? privateVotingContract.getElection() : null;
+  const isWeightedElection = !!privateVotingContract && privateVotingContract.isWeighted();
+  const votingMethod = election ? getVotingMethod(election.ballot) : 'plurality';
+  const isSealedElection = !!election?.sealed;
+  const ballotCandidates = election ? election.ballot.candidates : [];
+
+  // Confirmed tallies and election status, re-read from public storage whenever the node reaches
+  // a new block. Only the node is needed, so visitors see results without an account.
+  const results = useElectionResults(
+    privateVotingContract,
+    ballotCandidates.map(candidate => candidate.id),
+    isNodeConnected,
+  );
+  const currentBlock = results.blockNumber;
+  const electionState = results.snapshot ? results.snapshot.state : null;
+  const votingWindow = results.snapshot ? results.snapshot.votingWindow : null;
+  const round = results.snapshot ? results.snapshot.round : null;
+  const tallies = results.snapshot ? results.snapshot.tallies : null;
+  const tallySealed = !!results.snapshot && results.snapshot.tallies === null;
+  const runoffResult = results.snapshot ? results.snapshot.runoff : null;
+  const candidates: Candidate[] = ballotCandidates.map(candidate => ({
+    ...candidate,
+    votes: tallies && tallies[candidate.id] !== undefined ? Number(tallies[candidate.id]) : 0,
+  }));
+  const hasChoice = votingMethod === 'ranked'
+    ? rankings.length > 0
+    : votingMethod === 'approval'
+      ? approvedCandidates.length > 0
+      : !!selectedCandidate;
+
   const showStatus = (message: string) => {
     setStatusMessage(message);
     setTimeout(() => setStatusMessage(''), 5000);
@@ -55,10 +125,11 @@ export default function Home() {
     }
   };
 
-  const handleCreateAccount = async () => {
+  const handleCreateAccount = async (password: string) => {
     try {
-      const account = await createAccount();
+      const account = await createAccount(password, undefined, newAccountType);
       if (account) {
+        setIsCreatingAccount(false);
         showStatus('New account created and connected successfully!');
       }
     } catch (err) {
@@ -66,19 +137,74 @@ export default function Home() {
     }
   };
 
-  const handleConnectAccount = async () => {
+  const handleConnectAccount = async (password: string) => {
+    if (!unlockTarget) return;
+
     try {
-      const account = await connectAccount();
+      const account = await switchAccount(unlockTarget.address, password);
       if (account) {
-        showStatus('Existing account connected successfully!');
+        setUnlockTarget(null);
+        showStatus(`Connected to ${unlockTarget.name}`);
       } else {
-        showStatus('No stored account found');
+        showStatus(`Could not unlock ${unlockTarget.name}`);
       }
     } catch (err) {
       showStatus('Failed to connect account');
     }
   };
 
+  const handleRemoveAccount = (address: string) => {
+    removeAccount(address);
+    setBalance('');
+    showStatus('Account removed');
+  };
+
+  const handleExportBackup = async (password: string) => {
+    if (!walletState.address) return;
+
+    const backup = await exportAccount(password);
+    if (!backup) {
+      showStatus('Failed to export backup');
+      return;
+    }
+
+    const blob = new Blob([backup], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `aztec-account-${walletState.address.slice(2, 10)}.backup.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+    setIsExportingBackup(false);
+    showStatus('Backup exported. Keep the file and its password somewhere safe.');
+  };
+
+  const handleBackupFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    // Reset so choosing the same file again still fires a change
+    event.target.value = '';
+    if (!file) return;
+
+    try {
+      setBackupToImport({ fileName: file.name, json: await file.text() });
+    } catch (err) {
+      showStatus('Failed to read backup file');
+    }
+  };
+
+  const handleImportBackup = async (password: string) => {
+    if (!backupToImport) return;
+
+    const account = await importAccount(backupToImport.json, password);
+    if (account) {
+      setBackupToImport(null);
+      setElections(electionRegistry.listElections());
+      showStatus('Backup imported and account connected');
+    } else {
+      showStatus('Could not import the backup');
+    }
+  };
+
   const handleConnectTestAccount = async () => {
     try {
       const account = await connectTestAccount(0);
@@ -108,32 +234,47 @@ export default function Home() {
 
   // Load vote data from contract
   const loadVoteData = async () => {
-    if (!isConnected) return;
+    if (!isConnected || !privateVotingContract) return;
     
     try {
       await privateVotingContract.initialize();
+
+      // Make sure the ballot we render is the one committed on-chain
+      try {
+        const ballotMatches = await privateVotingContract.verifyBallot();
+        if (!ballotMatches) {
+          showStatus('Warning: this ballot does not match the hash committed on-chain');
+        }
+      } catch (error) {
+        console.error('Failed to verify ballot:', error);
+      }
       
-      // Load vote counts for each candidate
-      const updatedCandidates = await Promise.all(
-        candidates.map(async (candidate) => {
-          try {
-            const voteCount = await privateVotingContract.getVote(candidate.id);
-            return { ...candidate, votes: Number(voteCount) };
-          } catch (error) {
-            console.error(`Failed to get vote for candidate ${candidate.id}:`, error);
-            return candidate; // Keep existing vote count
-          }
-        })
-      );
-      
-      setCandidates(updatedCandidates);
-      
-      // Load voting end status
+      // Check the connected account against the voter allowlist
+      if (walletState.address) {
+        try {
+          const weight = await privateVotingContract.getVoterWeight(walletState.address);
+          setIsEligible(weight !== null);
+          setVoteWeight(weight);
+        } catch (error) {
+          console.error('Failed to check voter eligibility:', error);
+        }
+      }
+
+      // Check for an existing vote without proving a transaction
       try {
-        const ended = await privateVotingContract.getVoteEnded();
-        setVoteEnded(ended);
+        const voted = await privateVotingContract.hasVoted();
+        setHasVoted(voted);
+        // Show the voter their current private choice
+        setVoteReceipt(voted ? await privateVotingContract.getMyVoteReceipt() : null);
       } catch (error) {
-        console.error('Failed to get vote ended status:', error);
+        console.error('Failed to check whether account has voted:', error);
+      }
+
+      // Load the admins to decide whether to offer the admin console
+      try {
+        setElectionAdmins(await privateVotingContract.getAdmins());
+      } catch (error) {
+        console.error('Failed to get admins:', error);
       }
       
     } catch (error) {
@@ -141,15 +282,104 @@ export default function Home() {
     }
   };
 
-  // Load vote data when user connects
+  // Load vote data when user connects, switches account or switches election
   useEffect(() => {
+    // Votes, eligibility and admin roles belong to one account, so drop the previous account's
+    setHasVoted(false);
+    setVoteReceipt(null);
+    setIsChangingVote(false);
+    setIsEligible(true);
+    setVoteWeight(null);
+    setElectionAdmins(null);
     if (isConnected) {
       loadVoteData();
     }
-  }, [isConnected]);
+  }, [isConnected, walletState.address, selectedElectionId]);
+
+  // Pick up elections stored locally once running in the browser
+  useEffect(() => {
+    const stored = electionRegistry.listElections();
+    setElections(stored);
+    setSelectedElectionId(current => current ?? stored[0]?.id ?? null);
+  }, []);
+
+  const handleSelectElection = (electionId: string) => {
+    const election = electionRegistry.getElection(electionId);
+    if (!election) return;
+
+    setSelectedElectionId(electionId);
+    setSelectedCandidate(null);
+    setApprovedCandidates([]);
+    setRankings([]);
+    setHasVoted(false);
+    setVoteReceipt(null);
+    setIsChangingVote(false);
+    setElectionAdmins(null);
+    setIsEligible(true);
+    setVoteWeight(null);
+  };
+
+  const handleElectionAdded = (election: ElectionDeployment) => {
+    setElections(electionRegistry.listElections());
+    handleSelectElection(election.id);
+  };
+
+  const handleWitnessFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    // Reset so choosing the same file again still fires a change
+    event.target.value = '';
+    if (!file || !privateVotingContract) return;
+
+    try {
+      const witness = await privateVotingContract.importVoterWitness(await file.text());
+      setIsEligible(true);
+      setVoteWeight(witness.weight);
+      showStatus('Voter witness imported');
+    } catch (error) {
+      console.error('Failed to import voter witness:', error);
+      showStatus('Failed to import voter witness: ' + (error instanceof Error ? error.message : 'Unknown error'));
+    }
+  };
+
+  const handleShowReceipt = async () => {
+    if (!privateVotingContract) return;
+
+    try {
+      await privateVotingContract.initialize();
+      const receipt = await privateVotingContract.getMyVoteReceipt();
+      setVoteReceipt(receipt);
+      if (!receipt) {
+        showStatus('No vote receipt found yet. It appears once your vote is included in a block.');
+      }
+    } catch (error) {
+      console.error('Failed to get vote receipt:', error);
+      showStatus('Failed to get vote receipt');
+    }
+  };
+
+  const handleRevealBallots = async () => {
+    if (!privateVotingContract) return;
+
+    setIsRevealing(true);
+    showStatus('Revealing sealed ballots...');
+    try {
+      await privateVotingContract.initialize();
+      const counts = await privateVotingContract.revealSealedBallots();
+      showStatus(`Revealed ${counts.revealed} of ${counts.sealed} sealed ballots`);
+      await Promise.all([loadVoteData(), results.refresh()]);
+    } catch (error) {
+      console.error('Failed to reveal sealed ballots:', error);
+      showStatus('Failed to reveal sealed ballots: ' + (error instanceof Error ? error.message : 'Unknown error'));
+    } finally {
+      setIsRevealing(false);
+    }
+  };
+
+  const candidateName = (candidateId: number) =>
+    candidates.find(candidate => candidate.id === candidateId)?.name ?? `Candidate ${candidateId}`;
 
   const handleVote = async () => {
-    if (!selectedCandidate || !isConnected) {
+    if (!hasChoice || !isConnected || !privateVotingContract) {
       setStatusMessage('Please connect an account and select a candidate');
       setTimeout(() => setStatusMessage(''), 3000);
       return;
@@ -157,24 +387,56 @@ export default function Home() {
 
     setIsVoting(true);
     setStatusMessage('Casting vote privately...');
+
+    // The vote is mined by the time this runs, so its receipt note can be read back right away.
+    // A failure here does not undo the vote; the receipt can still be loaded with "Show my vote receipt".
+    const loadReceipt = async () => {
+      try {
+        setVoteReceipt(await privateVotingContract.getMyVoteReceipt());
+      } catch (error) {
+        console.error('Failed to get vote receipt:', error);
+      }
+    };
     
     try {
       // Initialize the contract if not already done
       await privateVotingContract.initialize();
+
+      if (isChangingVote && voteReceipt) {
+        const receipt = await privateVotingContract.changeVote(selectedCandidate!);
+        // The transaction is mined by now, so the tallies can be read back as confirmed
+        await results.refresh();
+        setVoteReceipt({ ...voteReceipt, choices: [selectedCandidate!] });
+        setSelectedCandidate(null);
+        setIsChangingVote(false);
+        setStatusMessage('Vote changed successfully! Transaction hash: ' + receipt.txHash);
+        setTimeout(() => setStatusMessage(''), 5000);
+        return;
+      }
       
+      if (votingMethod === 'ranked') {
+        const receipt = await privateVotingContract.castRankedVote(rankings);
+        setRankings([]);
+        setHasVoted(true);
+        await loadReceipt();
+        // Recount with the new ballot included
+        await results.refresh();
+        setStatusMessage('Ranked ballot cast successfully! Transaction hash: ' + receipt.txHash);
+        setTimeout(() => setStatusMessage(''), 5000);
+        return;
+      }
+
       // Cast the vote using the contract
-      const receipt = await privateVotingContract.castVote(selectedCandidate);
+      const votedFor = votingMethod === 'approval' ? approvedCandidates : [selectedCandidate!];
+      const receipt = await privateVotingContract.castVote(votedFor);
       
-      // Update local state to reflect the vote
-      setCandidates(prev => 
-        prev.map(candidate => 
-          candidate.id === selectedCandidate 
-            ? { ...candidate, votes: candidate.votes + 1 }
-            : candidate
-        )
-      );
+      // Show the confirmed tallies with the new vote included instead of counting it locally
+      await results.refresh();
       
       setSelectedCandidate(null);
+      setApprovedCandidates([]);
+      setHasVoted(true);
+      await loadReceipt();
       setStatusMessage('Vote cast successfully! Transaction hash: ' + receipt.txHash);
       setTimeout(() => setStatusMessage(''), 5000);
     } catch (error) {
@@ -186,6 +448,42 @@ export default function Home() {
     }
   };
 
+  const canChangeVote = hasVoted && !!voteReceipt && votingMethod === 'plurality' && !isSealedElection;
+  const isConnectedAccount = (address: { toString(): string } | null | undefined) =>
+    !!address && !!walletState.address && address.toString().toLowerCase() === walletState.address.toLowerCase();
+  // Co-admins and a pending admin also need the console to approve ending the vote or accept the role
+  const hasAdminRole = !!electionAdmins && (
+    isConnectedAccount(electionAdmins.admin) ||
+    electionAdmins.coAdmins.some(isConnectedAccount) ||
+    isConnectedAccount(electionAdmins.pendingAdmin)
+  );
+  // Ballots are sealed to the current on-chain admin, which may have changed since deployment
+  const canReveal = tallySealed && electionState === ElectionState.Closed && isConnectedAccount(electionAdmins?.admin);
+
+  const votingStatus = votingWindow && currentBlock !== null && electionState !== null
+    ? computeVotingStatus(votingWindow, electionState, currentBlock)
+    : electionState === ElectionState.Draft
+      ? 'pending'
+      : electionState !== null && electionState >= ElectionState.Closed ? 'closed' : 'open';
+  const votingClosed = votingStatus === 'closed';
+
+  const votingCountdown = (() => {
+    if (!votingWindow || currentBlock === null) return null;
+    if (electionState === ElectionState.Draft) {
+      return 'Waiting for the admin to open the vote';
+    }
+    if (votingStatus === 'pending') {
+      return `Opens in ${votingWindow.startBlock - BigInt(currentBlock)} blocks (block ${votingWindow.startBlock})`;
+    }
+    if (votingStatus === 'open') {
+      return `Closes in ${votingWindow.endBlock - BigInt(currentBlock)} blocks (block ${votingWindow.endBlock})`;
+    }
+    if (electionState === ElectionState.Finalized) {
+      return 'Results finalized by the admin';
+    }
+    return electionState === ElectionState.Closed ? 'Ended by the admin' : `Closed at block ${votingWindow.endBlock}`;
+  })();
+
   const toggleSecretKey = () => {
     setShowSecretKey(!showSecretKey);
   };
@@ -200,21 +498,48 @@ export default function Home() {
               <h1 className="text-xl font-bold text-gray-900 dark:text-white">
                 Private Voting
               </h1>
+              {elections.length > 0 && (
+                <select
+                  value={selectedElectionId ?? ''}
+                  onChange={(e) => handleSelectElection(e.target.value)}
+                  disabled={isVoting}
+                  className="bg-gray-50 dark:bg-gray-700 border border-gray-200 dark:border-gray-600 text-gray-900 dark:text-white text-sm rounded-md px-2 py-1"
+                >
+                  {elections.map((election) => (
+                    <option key={election.id} value={election.id}>
+                      {election.label}
+                    </option>
+                  ))}
+                </select>
+              )}
               {isConnected && (
                 <div className="flex items-center space-x-2">
-                  <div className={`w-2 h-2 rounded-full ${voteEnded ? 'bg-red-500' : 'bg-green-500'}`}></div>
+                  <div className={`w-2 h-2 rounded-full ${votingClosed ? 'bg-red-500' : votingStatus === 'pending' ? 'bg-yellow-500' : 'bg-green-500'}`}></div>
                   <span className="text-sm text-gray-600 dark:text-gray-300">
-                    {voteEnded ? 'Voting Ended' : 'Voting Active'}
+                    {votingClosed ? 'Voting Ended' : votingStatus === 'pending' ? 'Voting Not Started' : 'Voting Active'}
                   </span>
                 </div>
               )}
             </div>
             
             <div className="flex items-center space-x-4">
-              {walletState.address && (
-                <div className="text-sm text-gray-600 dark:text-gray-300">
-                  {walletState.address.slice(0, 6)}...{walletState.address.slice(-4)}
-                </div>
+              {isConnected && hasAdminRole && selectedElectionId && (
+                <Link
+                  href={`/admin?election=${encodeURIComponent(selectedElectionId)}`}
+                  className="text-sm text-blue-600 dark:text-blue-400 hover:underline"
+                >
+                  Admin
+                </Link>
+              )}
+              {(walletState.accounts.length > 0 || walletState.address) && (
+                <AccountPicker
+                  accounts={walletState.accounts}
+                  connectedAddress={walletState.address}
+                  isLoading={isLoading || !isInitialized}
+                  onSwitch={setUnlockTarget}
+                  onRename={renameAccount}
+                  onRemove={handleRemoveAccount}
+                />
               )}
               
               {!isInitialized ? (
@@ -228,15 +553,15 @@ export default function Home() {
               ) : !isConnected ? (
                 <div className="flex space-x-2">
                   <button
-                    onClick={handleCreateAccount}
+                    onClick={() => setIsCreatingAccount(true)}
                     disabled={isLoading}
                     className="bg-green-600 hover:bg-green-700 disabled:bg-gray-400 disabled:cursor-not-allowed text-white px-3 py-2 rounded-md text-sm font-medium transition-colors"
                   >
                     {isLoading ? 'Creating...' : 'Create New Account'}
                   </button>
-                  {walletState.account && (
+                  {walletState.selectedAccount && (
                     <button
-                      onClick={handleConnectAccount}
+                      onClick={() => setUnlockTarget(walletState.selectedAccount)}
                       disabled={isLoading}
                       className="bg-purple-600 hover:bg-purple-700 disabled:bg-gray-400 disabled:cursor-not-allowed text-white px-3 py-2 rounded-md text-sm font-medium transition-colors"
                     >
@@ -261,7 +586,7 @@ export default function Home() {
                     {isLoading ? 'Loading...' : 'Balance'}
                   </button>
                   <button
-                    onClick={loadVoteData}
+                    onClick={() => Promise.all([loadVoteData(), results.refresh()])}
                     disabled={isLoading}
                     className="bg-teal-600 hover:bg-teal-700 disabled:bg-gray-400 disabled:cursor-not-allowed text-white px-3 py-2 rounded-md text-sm font-medium transition-colors"
                   >
@@ -273,6 +598,15 @@ export default function Home() {
                   >
                     {showSecretKey ? 'Hide' : 'Show'} Keys
                   </button>
+                  {walletState.account && (
+                    <button
+                      onClick={() => setIsExportingBackup(true)}
+                      disabled={isLoading}
+                      className="bg-gray-600 hover:bg-gray-700 disabled:bg-gray-400 disabled:cursor-not-allowed text-white px-3 py-2 rounded-md text-sm font-medium transition-colors"
+                    >
+                      Export Backup
+                    </button>
+                  )}
                   <button
                     onClick={handleDisconnect}
                     className="bg-red-600 hover:bg-red-700 text-white px-3 py-2 rounded-md text-sm font-medium transition-colors"
@@ -305,6 +639,12 @@ export default function Home() {
                 <span className="font-medium text-yellow-800 dark:text-yellow-200">Address:</span>
                 <span className="ml-2 font-mono break-all">{walletState.account.address}</span>
               </div>
+              <div>
+                <span className="font-medium text-yellow-800 dark:text-yellow-200">Account Type:</span>
+                <span className="ml-2">
+                  {ACCOUNT_TYPES.find(({ type }) => type === (walletState.account?.type ?? DEFAULT_ACCOUNT_TYPE))?.label}
+                </span>
+              </div>
               <div>
                 <span className="font-medium text-yellow-800 dark:text-yellow-200">Secret Key:</span>
                 <span className="ml-2 font-mono break-all">{walletState.account.secretKey}</span>
@@ -327,176 +667,393 @@ export default function Home() {
           </div>
         )}
 
-        <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
-          {/* Vote Results */}
-          <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-6">
-            <div className="flex items-center justify-between mb-6">
-              <h2 className="text-2xl font-bold text-gray-900 dark:text-white">
-                Current Vote Count
-              </h2>
-              {voteEnded && (
-                <div className="flex items-center space-x-2 bg-red-100 dark:bg-red-900/30 px-3 py-1 rounded-full">
-                  <span className="text-red-600 dark:text-red-300 text-sm font-medium">🗳️ Voting Ended</span>
-                </div>
-              )}
-            </div>
-            
-            <div className="space-y-4">
-              {candidates.map((candidate) => (
-                <div
-                  key={candidate.id}
-                  className="flex items-center justify-between p-4 bg-gray-50 dark:bg-gray-700 rounded-lg"
-                >
-                  <div className="flex items-center space-x-3">
-                    <div className="w-8 h-8 bg-blue-100 dark:bg-blue-900 rounded-full flex items-center justify-center">
-                      <span className="text-blue-600 dark:text-blue-300 font-medium">
-                        {candidate.id}
-                      </span>
-                    </div>
-                    <span className="font-medium text-gray-900 dark:text-white">
-                      {candidate.name}
-                    </span>
-                  </div>
-                  
-                  <div className="flex items-center space-x-2">
-                    <span className="text-2xl font-bold text-gray-900 dark:text-white">
-                      {candidate.votes}
-                    </span>
-                    <span className="text-sm text-gray-500 dark:text-gray-400">
-                      votes
-                    </span>
-                  </div>
-                </div>
-              ))}
-            </div>
-            
-            {/* Voting Status Summary */}
-            <div className="mt-6 p-4 bg-blue-50 dark:bg-blue-900/20 rounded-lg">
-              <div className="flex items-center justify-between">
+        {election ? (
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+            {/* Vote Results */}
+            <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-6">
+              <div className="flex items-center justify-between mb-6">
                 <div>
-                  <h3 className="text-lg font-semibold text-blue-800 dark:text-blue-200">
-                    Voting Status
-                  </h3>
-                  <p className="text-sm text-blue-600 dark:text-blue-300">
-                    {voteEnded ? 'Voting period has ended' : 'Voting is currently active'}
+                  <h2 className="text-2xl font-bold text-gray-900 dark:text-white">
+                    Current Vote Count
+                  </h2>
+                  <p className="text-sm text-gray-500 dark:text-gray-400">
+                    {election.ballot.title}
+                    {round !== null && round > BigInt(1) && ` · Round ${round}`}
+                  </p>
+                  <p className="text-xs text-gray-400 dark:text-gray-500">
+                    {results.error
+                      ? `Sync failed: ${results.error}`
+                      : results.snapshot && results.lastSyncedAt
+                        ? `Synced at block ${results.snapshot.blockNumber} · ${results.lastSyncedAt.toLocaleTimeString()}`
+                        : results.isSyncing ? 'Syncing results...' : 'Not synced yet'}
+                    {!isConnected && results.snapshot && ' · read-only view, connect an account to vote'}
                   </p>
                 </div>
-                <div className="text-right">
-                  <div className="text-2xl font-bold text-blue-800 dark:text-blue-200">
-                    {candidates.reduce((total, candidate) => total + candidate.votes, 0)}
+                {votingClosed && (
+                  <div className="flex items-center space-x-2 bg-red-100 dark:bg-red-900/30 px-3 py-1 rounded-full">
+                    <span className="text-red-600 dark:text-red-300 text-sm font-medium">🗳️ Voting Ended</span>
                   </div>
-                  <div className="text-sm text-blue-600 dark:text-blue-300">
-                    Total Votes
-                  </div>
-                </div>
+                )}
               </div>
-            </div>
-          </div>
+              
+              {votingMethod === 'ranked' ? (
+                <InstantRunoffRounds
+                  candidates={ballotCandidates}
+                  result={runoffResult}
+                />
+              ) : (
+                <div className="space-y-4">
+                  {candidates.map((candidate) => (
+                    <div
+                      key={candidate.id}
+                      className="flex items-center justify-between p-4 bg-gray-50 dark:bg-gray-700 rounded-lg"
+                    >
+                      <div className="flex items-center space-x-3">
+                        <div className="w-8 h-8 bg-blue-100 dark:bg-blue-900 rounded-full flex items-center justify-center">
+                          <span className="text-blue-600 dark:text-blue-300 font-medium">
+                            {candidate.id}
+                          </span>
+                        </div>
+                        <div>
+                          <span className="font-medium text-gray-900 dark:text-white">
+                            {candidate.name}
+                          </span>
+                          {candidate.description && (
+                            <p className="text-sm text-gray-500 dark:text-gray-400">
+                              {candidate.description}
+                            </p>
+                          )}
+                        </div>
+                      </div>
+                      
+                      {tallySealed ? (
+                        <span className="text-sm text-gray-500 dark:text-gray-400">
+                          Sealed until the vote ends
+                        </span>
+                      ) : (
+                        <div className="flex items-center space-x-2">
+                          <span className="text-2xl font-bold text-gray-900 dark:text-white">
+                            {candidate.votes}
+                          </span>
+                          <span className="text-sm text-gray-500 dark:text-gray-400">
+                            {isWeightedElection ? 'weighted votes' : 'votes'}
+                          </span>
+                        </div>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              )}
 
-          {/* Voting Form */}
-          <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-6">
-            <h2 className="text-2xl font-bold text-gray-900 dark:text-white mb-6">
-              Cast Your Vote
-            </h2>
-            
-            {!isInitialized ? (
-              <div className="text-center py-8">
-                <p className="text-gray-600 dark:text-gray-400 mb-4">
-                  Please initialize the wallet to start voting
-                </p>
+              {canReveal && (
                 <button
-                  onClick={handleInitialize}
-                  disabled={isLoading}
-                  className="bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400 disabled:cursor-not-allowed text-white px-6 py-3 rounded-md font-medium transition-colors"
+                  onClick={handleRevealBallots}
+                  disabled={isRevealing}
+                  className="mt-4 w-full bg-indigo-600 hover:bg-indigo-700 disabled:bg-gray-400 disabled:cursor-not-allowed text-white px-6 py-2 rounded-md text-sm font-medium transition-colors"
                 >
-                  {isLoading ? 'Initializing...' : 'Initialize Wallet'}
+                  {isRevealing ? 'Revealing...' : 'Reveal Sealed Ballots'}
                 </button>
+              )}
+              
+              {/* Voting Status Summary */}
+              <div className="mt-6 p-4 bg-blue-50 dark:bg-blue-900/20 rounded-lg">
+                <div className="flex items-center justify-between">
+                  <div>
+                    <h3 className="text-lg font-semibold text-blue-800 dark:text-blue-200">
+                      Voting Status
+                    </h3>
+                    <p className="text-sm text-blue-600 dark:text-blue-300">
+                      {votingClosed
+                        ? 'Voting period has ended'
+                        : votingStatus === 'pending'
+                          ? 'Voting has not started yet'
+                          : 'Voting is currently active'}
+                    </p>
+                    {votingCountdown && (
+                      <p className="text-xs text-blue-500 dark:text-blue-400">
+                        {votingCountdown}
+                        {currentBlock !== null && ` · current block ${currentBlock}`}
+                      </p>
+                    )}
+                  </div>
+                  <div className="text-right">
+                    <div className="text-2xl font-bold text-blue-800 dark:text-blue-200">
+                      {votingMethod === 'ranked'
+                        ? (runoffResult?.totalWeight ?? BigInt(0)).toString()
+                        : tallySealed
+                          ? '—'
+                          : candidates.reduce((total, candidate) => total + candidate.votes, 0)}
+                    </div>
+                    <div className="text-sm text-blue-600 dark:text-blue-300">
+                      {isWeightedElection
+                        ? 'Total Vote Weight'
+                        : votingMethod === 'approval' ? 'Total Approvals' : 'Total Votes'}
+                    </div>
+                  </div>
+                </div>
               </div>
-            ) : !isConnected ? (
-              <div className="text-center py-8">
-                <p className="text-gray-600 dark:text-gray-400 mb-4">
-                  {walletState.account 
-                    ? 'Connect to your existing account or create a new one'
-                    : 'Create a new account or use a test account to start voting'
-                  }
-                </p>
-                <div className="space-y-3">
+            </div>
+
+            {/* Voting Form */}
+            <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-6">
+              <h2 className="text-2xl font-bold text-gray-900 dark:text-white mb-6">
+                Cast Your Vote
+              </h2>
+              
+              {!isInitialized ? (
+                <div className="text-center py-8">
+                  <p className="text-gray-600 dark:text-gray-400 mb-4">
+                    Please initialize the wallet to start voting
+                  </p>
                   <button
-                    onClick={handleCreateAccount}
+                    onClick={handleInitialize}
                     disabled={isLoading}
-                    className="w-full bg-green-600 hover:bg-green-700 disabled:bg-gray-400 disabled:cursor-not-allowed text-white px-6 py-3 rounded-md font-medium transition-colors"
+                    className="bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400 disabled:cursor-not-allowed text-white px-6 py-3 rounded-md font-medium transition-colors"
                   >
-                    {isLoading ? 'Creating...' : 'Create New Account'}
+                    {isLoading ? 'Initializing...' : 'Initialize Wallet'}
                   </button>
-                  {walletState.account && (
+                </div>
+              ) : !isConnected ? (
+                <div className="text-center py-8">
+                  <p className="text-gray-600 dark:text-gray-400 mb-4">
+                    {walletState.selectedAccount
+                      ? 'Connect to your existing account or create a new one'
+                      : 'Create a new account or use a test account to start voting'
+                    }
+                  </p>
+                  <div className="space-y-3">
                     <button
-                      onClick={handleConnectAccount}
+                      onClick={() => setIsCreatingAccount(true)}
                       disabled={isLoading}
-                      className="w-full bg-purple-600 hover:bg-purple-700 disabled:bg-gray-400 disabled:cursor-not-allowed text-white px-6 py-3 rounded-md font-medium transition-colors"
+                      className="w-full bg-green-600 hover:bg-green-700 disabled:bg-gray-400 disabled:cursor-not-allowed text-white px-6 py-3 rounded-md font-medium transition-colors"
                     >
-                      {isLoading ? 'Connecting...' : 'Connect Existing Account'}
+                      {isLoading ? 'Creating...' : 'Create New Account'}
                     </button>
-                  )}
-                  <button
-                    onClick={handleConnectTestAccount}
-                    disabled={isLoading}
-                    className="w-full bg-orange-600 hover:bg-orange-700 disabled:bg-gray-400 disabled:cursor-not-allowed text-white px-6 py-3 rounded-md font-medium transition-colors"
-                  >
-                    {isLoading ? 'Connecting...' : 'Connect Test Account'}
-                  </button>
+                    {walletState.selectedAccount && (
+                      <button
+                        onClick={() => setUnlockTarget(walletState.selectedAccount)}
+                        disabled={isLoading}
+                        className="w-full bg-purple-600 hover:bg-purple-700 disabled:bg-gray-400 disabled:cursor-not-allowed text-white px-6 py-3 rounded-md font-medium transition-colors"
+                      >
+                        {isLoading ? 'Connecting...' : 'Connect Existing Account'}
+                      </button>
+                    )}
+                    <button
+                      onClick={handleConnectTestAccount}
+                      disabled={isLoading}
+                      className="w-full bg-orange-600 hover:bg-orange-700 disabled:bg-gray-400 disabled:cursor-not-allowed text-white px-6 py-3 rounded-md font-medium transition-colors"
+                    >
+                      {isLoading ? 'Connecting...' : 'Connect Test Account'}
+                    </button>
+                    <button
+                      onClick={() => backupInput.current?.click()}
+                      disabled={isLoading}
+                      className="w-full bg-gray-600 hover:bg-gray-700 disabled:bg-gray-400 disabled:cursor-not-allowed text-white px-6 py-3 rounded-md font-medium transition-colors"
+                    >
+                      Import Account Backup
+                    </button>
+                    <input
+                      ref={backupInput}
+                      type="file"
+                      accept="application/json,.json"
+                      onChange={handleBackupFile}
+                      className="hidden"
+                    />
+                  </div>
                 </div>
-              </div>
-            ) : (
-              <div className="space-y-6">
-                {voteEnded && (
-                  <div className="bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg p-4">
-                    <div className="text-center">
-                      <p className="text-red-800 dark:text-red-200 font-medium text-lg mb-2">
-                        🗳️ Voting Period Has Ended
+              ) : (
+                <div className="space-y-6">
+                  {votingClosed && (
+                    <div className="bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg p-4">
+                      <div className="text-center">
+                        <p className="text-red-800 dark:text-red-200 font-medium text-lg mb-2">
+                          🗳️ Voting Period Has Ended
+                        </p>
+                        <p className="text-red-700 dark:text-red-300 text-sm">
+                          No more votes can be cast. View the final results above.
+                        </p>
+                      </div>
+                    </div>
+                  )}
+                  {!isEligible && (
+                    <div className="bg-yellow-50 dark:bg-yellow-900/20 border border-yellow-200 dark:border-yellow-800 rounded-lg p-4 space-y-2 text-center">
+                      <p className="text-yellow-800 dark:text-yellow-200 text-sm">
+                        Only accounts on the voter list can vote. Import the witness file you received from the
+                        election admin to vote from this browser.
                       </p>
-                      <p className="text-red-700 dark:text-red-300 text-sm">
-                        No more votes can be cast. View the final results above.
+                      <button
+                        onClick={() => witnessInput.current?.click()}
+                        className="text-sm text-blue-600 dark:text-blue-400 hover:underline"
+                      >
+                        Import voter witness
+                      </button>
+                      <input
+                        ref={witnessInput}
+                        type="file"
+                        accept="application/json,.json"
+                        onChange={handleWitnessFile}
+                        className="hidden"
+                      />
+                    </div>
+                  )}
+                  {hasVoted && !votingClosed && (
+                    <div className="bg-green-50 dark:bg-green-900/20 border border-green-200 dark:border-green-800 rounded-lg p-4">
+                      <p className="text-green-800 dark:text-green-200 text-sm text-center">
+                        You have already voted
                       </p>
                     </div>
-                  </div>
-                )}
-                <div>
-                  <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-3">
-                    Select a candidate:
-                  </label>
-                  <div className="space-y-2">
-                    {candidates.map((candidate) => (
-                      <label
-                        key={candidate.id}
-                        className="flex items-center p-3 border border-gray-200 dark:border-gray-600 rounded-lg cursor-pointer hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors"
-                      >
-                        <input
-                          type="radio"
-                          name="candidate"
-                          value={candidate.id}
-                          checked={selectedCandidate === candidate.id}
-                          onChange={(e) => setSelectedCandidate(Number(e.target.value))}
-                          className="mr-3 text-blue-600"
-                        />
-                        <span className="text-gray-900 dark:text-white">
-                          {candidate.name}
-                        </span>
+                  )}
+                  {hasVoted && (
+                    <div className="text-sm text-center text-gray-600 dark:text-gray-400">
+                      {voteReceipt ? (
+                        <div className="space-y-1">
+                          <p>
+                            Your private choice: {voteReceipt.choices.map(candidateName).join(votingMethod === 'ranked' ? ' > ' : ', ')}
+                          </p>
+                          {canChangeVote && votingStatus === 'open' && (
+                            <button
+                              onClick={() => {
+                                setIsChangingVote(!isChangingVote);
+                                setSelectedCandidate(null);
+                              }}
+                              className="text-blue-600 dark:text-blue-400 hover:underline"
+                            >
+                              {isChangingVote ? 'Keep my vote' : 'Change vote'}
+                            </button>
+                          )}
+                        </div>
+                      ) : (
+                        <button
+                          onClick={handleShowReceipt}
+                          className="text-blue-600 dark:text-blue-400 hover:underline"
+                        >
+                          Show my vote receipt
+                        </button>
+                      )}
+                    </div>
+                  )}
+                  {isEligible && isWeightedElection && voteWeight !== null && (
+                    <p className="text-sm text-gray-600 dark:text-gray-400 text-center">
+                      Your vote carries a weight of {voteWeight.toString()} from the admin&apos;s voter snapshot.
+                    </p>
+                  )}
+                  {votingMethod === 'ranked' ? (
+                    <RankedBallotForm
+                      candidates={ballotCandidates}
+                      rankings={rankings}
+                      onChange={setRankings}
+                    />
+                  ) : (
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-3">
+                        {votingMethod === 'approval'
+                          ? `Select every candidate you approve (up to ${MAX_APPROVALS}):`
+                          : 'Select a candidate:'}
                       </label>
-                    ))}
-                  </div>
+                      <div className="space-y-2">
+                        {candidates.map((candidate) => (
+                          <label
+                            key={candidate.id}
+                            className="flex items-center p-3 border border-gray-200 dark:border-gray-600 rounded-lg cursor-pointer hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors"
+                          >
+                            {votingMethod === 'approval' ? (
+                              <input
+                                type="checkbox"
+                                value={candidate.id}
+                                checked={approvedCandidates.indexOf(candidate.id) !== -1}
+                                disabled={
+                                  approvedCandidates.indexOf(candidate.id) === -1 &&
+                                  approvedCandidates.length >= MAX_APPROVALS
+                                }
+                                onChange={(e) =>
+                                  setApprovedCandidates(prev =>
+                                    e.target.checked
+                                      ? [...prev, candidate.id]
+                                      : prev.filter(id => id !== candidate.id)
+                                  )
+                                }
+                                className="mr-3 text-blue-600"
+                              />
+                            ) : (
+                              <input
+                                type="radio"
+                                name="candidate"
+                                value={candidate.id}
+                                checked={selectedCandidate === candidate.id}
+                                onChange={(e) => setSelectedCandidate(Number(e.target.value))}
+                                className="mr-3 text-blue-600"
+                              />
+                            )}
+                            <div>
+                              <span className="text-gray-900 dark:text-white">
+                                {candidate.name}
+                              </span>
+                              {candidate.description && (
+                                <p className="text-xs text-gray-500 dark:text-gray-400">
+                                  {candidate.description}
+                                </p>
+                              )}
+                            </div>
+                          </label>
+                        ))}
+                      </div>
+                    </div>
+                  )}
+
+                  <FeeSettings
+                    strategy={walletState.feeStrategy}
+                    disabled={isVoting || isLoading}
+                    onChange={setFeeStrategy}
+                  />
+                  
+                  <button
+                    onClick={handleVote}
+                    disabled={
+                      !hasChoice ||
+                      isVoting ||
+                      isLoading ||
+                      votingStatus !== 'open' ||
+                      !isEligible ||
+                      (hasVoted && !isChangingVote) ||
+                      (isChangingVote && selectedCandidate === voteReceipt?.choices[0])
+                    }
+                    className="w-full bg-green-600 hover:bg-green-700 disabled:bg-gray-400 disabled:cursor-not-allowed text-white px-6 py-3 rounded-md font-medium transition-colors"
+                  >
+                    {isVoting
+                      ? 'Casting Vote...'
+                      : isChangingVote
+                        ? 'Change Vote'
+                        : hasVoted && !votingClosed
+                          ? 'Already Voted'
+                          : votingClosed
+                            ? 'Voting Ended'
+                            : votingStatus === 'pending'
+                              ? 'Voting Not Started'
+                              : 'Vote Privately'}
+                  </button>
                 </div>
-                
-                <button
-                  onClick={handleVote}
-                  disabled={!selectedCandidate || isVoting || isLoading || voteEnded}
-                  className="w-full bg-green-600 hover:bg-green-700 disabled:bg-gray-400 disabled:cursor-not-allowed text-white px-6 py-3 rounded-md font-medium transition-colors"
-                >
-                  {isVoting ? 'Casting Vote...' : voteEnded ? 'Voting Ended' : 'Vote Privately'}
-                </button>
-              </div>
-            )}
+              )}
+            </div>
           </div>
-        </div>
+        ) : (
+          <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-6 text-center">
+            <p className="text-gray-600 dark:text-gray-400">
+              No elections yet. Connect an account to create one or import its deploy params below.
+            </p>
+          </div>
+        )}
+
+        {isConnected && (
+          <div className="mt-8">
+            <CreateElection
+              connectedAddress={walletState.address}
+              currentBlock={currentBlock}
+              selectedElectionId={selectedElectionId}
+              onElectionAdded={handleElectionAdded}
+              onStatus={showStatus}
+            />
+          </div>
+        )}
 
         {/* Status Message */}
         {statusMessage && (
@@ -582,6 +1139,78 @@ export default function Home() {
           </div>
         </div>
       </div>
+
+      {isCreatingAccount && (
+        <PasswordPrompt
+          title="Create Account"
+          description="Choose a password. The new account's keys are encrypted with it before they are saved in this browser."
+          submitLabel="Create Account"
+          confirm
+          isSubmitting={isLoading}
+          onSubmit={handleCreateAccount}
+          onCancel={() => setIsCreatingAccount(false)}
+        >
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+              Account type
+            </label>
+            <select
+              value={newAccountType}
+              onChange={(e) => setNewAccountType(e.target.value as AccountType)}
+              disabled={isLoading}
+              className="w-full border border-gray-200 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-900 dark:text-white rounded-md px-3 py-2 text-sm"
+            >
+              {ACCOUNT_TYPES.map(({ type, label }) => (
+                <option key={type} value={type}>
+                  {label}
+                </option>
+              ))}
+            </select>
+            <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+              {ACCOUNT_TYPES.find(({ type }) => type === newAccountType)?.description}
+            </p>
+            <p className="mt-2 text-xs text-gray-500 dark:text-gray-400">
+              Deployment fee paid with: {describeFeeStrategy(walletState.feeStrategy)}
+            </p>
+          </div>
+        </PasswordPrompt>
+      )}
+      {unlockTarget && (
+        <PasswordPrompt
+          key={unlockTarget.address}
+          title={`Unlock ${unlockTarget.name}`}
+          description={unlockTarget.encrypted
+            ? `Enter the password for ${unlockTarget.address.slice(0, 10)}...`
+            : 'This account was saved unencrypted. Choose a password to encrypt it.'}
+          submitLabel={unlockTarget.encrypted ? 'Unlock' : 'Encrypt and Connect'}
+          confirm={!unlockTarget.encrypted}
+          isSubmitting={isLoading}
+          onSubmit={handleConnectAccount}
+          onCancel={() => setUnlockTarget(null)}
+        />
+      )}
+      {isExportingBackup && (
+        <PasswordPrompt
+          title="Export Backup"
+          description="Choose a password for the backup file. It holds this account's keys and the elections it knows about."
+          submitLabel="Export"
+          confirm
+          isSubmitting={isLoading}
+          onSubmit={handleExportBackup}
+          onCancel={() => setIsExportingBackup(false)}
+        />
+      )}
+      {backupToImport && (
+        <PasswordPrompt
+          key={backupToImport.fileName}
+          title="Import Backup"
+          description={`Enter the password for ${backupToImport.fileName}. The account is saved in this browser with the same password.`}
+          submitLabel="Import"
+          isSubmitting={isLoading}
+          onSubmit={handleImportBackup}
+          onCancel={() => setBackupToImport(null)}
+        />
+      )}
     </main>
   );
 }
@@ -0,0 +1,86 @@
+import type { ElectionDeployment } from './contracts/electionRegistry';
+import { decryptWithPassword, encryptWithPassword, type PasswordEncrypted } from './keystore';
+import type { AccountData } from './wallet-browser';
+
+export const BACKUP_FORMAT = 'aztec-voting-backup';
+
+// Bump when the backup layout changes; older versions must stay importable
+export const BACKUP_VERSION = 1;
+
+/**
+ * An account and the elections it uses, sealed with a password for moving to another browser.
+ * The address stays in the clear so the file can be recognised, and is bound to the ciphertext
+ * together with the format and version.
+ */
+export interface AccountBackup extends PasswordEncrypted {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  address: string;
+  createdAt: string;
+}
+
+export interface BackupContents {
+  name: string;
+  account: AccountData;
+  elections: ElectionDeployment[];
+}
+
+/**
+ * Encrypt an account and its elections into a backup
+ */
+export async function encryptBackup(contents: BackupContents, password: string): Promise<AccountBackup> {
+  const { address } = contents.account;
+  return {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    address,
+    createdAt: new Date().toISOString(),
+    ...(await encryptWithPassword(contents, associatedData(BACKUP_VERSION, address), password)),
+  };
+}
+
+/**
+ * Decrypt a backup. A wrong password and a tampered file fail the same way.
+ */
+export async function decryptBackup(backup: AccountBackup, password: string): Promise<BackupContents> {
+  if (backup.version !== BACKUP_VERSION) {
+    throw new Error(`Unsupported backup version ${backup.version}`);
+  }
+
+  const contents = await decryptWithPassword<BackupContents>(
+    backup,
+    associatedData(backup.version, backup.address),
+    password
+  );
+  if (contents.account.address !== backup.address) {
+    throw new Error('Backup address does not match its contents');
+  }
+  return {
+    ...contents,
+    elections: Array.isArray(contents.elections) ? contents.elections : [],
+  };
+}
+
+/**
+ * Parse a backup file, rejecting anything that is not one
+ */
+export function parseBackup(json: string): AccountBackup {
+  let backup: AccountBackup;
+  try {
+    backup = JSON.parse(json) as AccountBackup;
+  } catch (error) {
+    throw new Error('Invalid backup: not a JSON file');
+  }
+
+  if (!backup || backup.format !== BACKUP_FORMAT) {
+    throw new Error('Invalid backup: not an account backup file');
+  }
+  if (typeof backup.address !== 'string' || typeof backup.ciphertext !== 'string' || !backup.kdf || !backup.cipher) {
+    throw new Error('Invalid backup: missing encrypted contents');
+  }
+  return backup;
+}
+
+function associatedData(version: number, address: string): string {
+  return `${BACKUP_FORMAT}:${version}:${address}`;
+}
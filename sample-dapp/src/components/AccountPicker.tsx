@@ -0,0 +1,119 @@
+'use client';
+
+import { useState } from 'react';
+import type { StoredAccountInfo } from '../wallet-browser';
+
+interface AccountPickerProps {
+  accounts: StoredAccountInfo[];
+  connectedAddress: string | null;
+  isLoading: boolean;
+  // Switching needs the chosen account's password, so the parent prompts for it
+  onSwitch: (account: StoredAccountInfo) => void;
+  onRename: (address: string, name: string) => void;
+  onRemove: (address: string) => void;
+}
+
+const shortAddress = (address: string) => `${address.slice(0, 6)}...${address.slice(-4)}`;
+
+export default function AccountPicker({
+  accounts,
+  connectedAddress,
+  isLoading,
+  onSwitch,
+  onRename,
+  onRemove,
+}: AccountPickerProps) {
+  const [isManaging, setIsManaging] = useState(false);
+  const [name, setName] = useState('');
+
+  const isConnectedAccount = (account: StoredAccountInfo) =>
+    !!connectedAddress && account.address.toLowerCase() === connectedAddress.toLowerCase();
+  const connected = accounts.find(isConnectedAccount) ?? null;
+
+  const handleChange = (address: string) => {
+    const account = accounts.find(entry => entry.address === address);
+    if (account && !isConnectedAccount(account)) {
+      onSwitch(account);
+    }
+  };
+
+  const handleManage = () => {
+    setName(connected ? connected.name : '');
+    setIsManaging(!isManaging);
+  };
+
+  const handleRename = () => {
+    if (connected && name.trim()) {
+      onRename(connected.address, name);
+      setIsManaging(false);
+    }
+  };
+
+  const handleRemove = () => {
+    if (connected && window.confirm(`Remove "${connected.name}" from this browser? Its keys cannot be recovered without a backup.`)) {
+      onRemove(connected.address);
+      setIsManaging(false);
+    }
+  };
+
+  return (
+    <div className="relative flex items-center space-x-2">
+      <select
+        value={connected ? connected.address : ''}
+        onChange={(e) => handleChange(e.target.value)}
+        disabled={isLoading}
+        className="border border-gray-200 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-900 dark:text-white rounded-md px-2 py-1 text-sm"
+      >
+        {!connected && (
+          <option value="" disabled>
+            {connectedAddress ? `Test account ${shortAddress(connectedAddress)}` : 'Select account'}
+          </option>
+        )}
+        {accounts.map((account) => (
+          <option key={account.address} value={account.address}>
+            {account.name} ({shortAddress(account.address)})
+          </option>
+        ))}
+      </select>
+      {connected && (
+        <button
+          onClick={handleManage}
+          className="text-sm text-gray-500 dark:text-gray-400 hover:underline"
+        >
+          Manage
+        </button>
+      )}
+
+      {isManaging && connected && (
+        <div className="absolute right-0 top-full mt-2 z-10 w-72 bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg shadow-lg p-4 space-y-3">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+              Account name
+            </label>
+            <div className="flex space-x-2">
+              <input
+                type="text"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                className="flex-1 border border-gray-200 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-900 dark:text-white rounded-md px-2 py-1 text-sm"
+              />
+              <button
+                onClick={handleRename}
+                disabled={!name.trim()}
+                className="bg-gray-600 hover:bg-gray-700 disabled:bg-gray-400 disabled:cursor-not-allowed text-white px-3 py-1 rounded-md text-sm font-medium transition-colors"
+              >
+                Save
+              </button>
+            </div>
+          </div>
+          <button
+            onClick={handleRemove}
+            className="w-full bg-red-600 hover:bg-red-700 text-white px-3 py-1 rounded-md text-sm font-medium transition-colors"
+          >
+            Remove Account
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,286 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import type { TxReceipt } from '@aztec/aztec.js';
+import { MAX_CO_ADMINS } from '../contracts/adminRoles';
+import {
+  ElectionState,
+  type ElectionAdmins,
+  type PrivateVotingContractHandler,
+  type SealedBallotCounts,
+} from '../contracts/privateVotingContract';
+
+interface AdminPanelProps {
+  handler: PrivateVotingContractHandler;
+  connectedAddress: string | null;
+  electionState: ElectionState | null;
+  // Called after any admin transaction so the parent can reload election state
+  onUpdated: () => void;
+  onStatus: (message: string) => void;
+}
+
+export default function AdminPanel({
+  handler,
+  connectedAddress,
+  electionState,
+  onUpdated,
+  onStatus,
+}: AdminPanelProps) {
+  const [admins, setAdmins] = useState<ElectionAdmins | null>(null);
+  // Null for elections whose ballots are not sealed
+  const [sealedCounts, setSealedCounts] = useState<SealedBallotCounts | null>(null);
+  const [newAdmin, setNewAdmin] = useState('');
+  const [coAdminsText, setCoAdminsText] = useState('');
+  const [threshold, setThreshold] = useState('1');
+  const [pendingAction, setPendingAction] = useState<string | null>(null);
+
+  const loadAdmins = async () => {
+    try {
+      await handler.initialize();
+      const [loaded, sealed] = await Promise.all([handler.getAdmins(), handler.isSealed()]);
+      setAdmins(loaded);
+      setSealedCounts(sealed ? await handler.getSealedBallotCounts() : null);
+      setCoAdminsText(loaded.coAdmins.map(address => address.toString()).join('\n'));
+      setThreshold(loaded.endVoteThreshold.toString());
+    } catch (error) {
+      console.error('Failed to load admins:', error);
+      setAdmins(null);
+    }
+  };
+
+  useEffect(() => {
+    if (connectedAddress) {
+      loadAdmins();
+    }
+  }, [handler, connectedAddress]);
+
+  const isSameAddress = (address: { toString(): string } | null | undefined) =>
+    !!address && !!connectedAddress && address.toString().toLowerCase() === connectedAddress.toLowerCase();
+
+  const isAdmin = isSameAddress(admins?.admin);
+  const isCoAdmin = !!admins && admins.coAdmins.some(isSameAddress);
+  const isPendingAdmin = isSameAddress(admins?.pendingAdmin);
+  const hasApprovedEnd = !!admins && admins.endVoteApprovals.some(isSameAddress);
+  const hasUnrevealedBallots = !!sealedCounts && sealedCounts.revealed < sealedCounts.sealed;
+
+  const runAction = async (label: string, action: () => Promise<TxReceipt>, successMessage: string) => {
+    setPendingAction(label);
+    onStatus(`${label}...`);
+    try {
+      const receipt = await action();
+      onStatus(`${successMessage} Transaction hash: ${receipt.txHash}`);
+      await loadAdmins();
+      onUpdated();
+    } catch (error) {
+      console.error(`${label} failed:`, error);
+      onStatus(`${label} failed: ` + (error instanceof Error ? error.message : 'Unknown error'));
+    } finally {
+      setPendingAction(null);
+    }
+  };
+
+  const handleOpenVote = () =>
+    runAction('Opening vote', () => handler.openVote(), 'Vote opened.');
+
+  const handleFinalizeVote = () =>
+    runAction('Finalizing vote', () => handler.finalizeVote(), 'Results finalized.');
+
+  const handleEndVote = () =>
+    runAction('Ending vote', () => handler.endVote(), 'End vote approved.');
+
+  const handleTransfer = () =>
+    runAction('Transferring admin', async () => {
+      const receipt = await handler.transferAdmin(newAdmin.trim());
+      setNewAdmin('');
+      return receipt;
+    }, 'Admin transfer proposed; it completes when the new admin accepts.');
+
+  const handleReveal = async () => {
+    setPendingAction('Revealing sealed ballots');
+    onStatus('Revealing sealed ballots...');
+    try {
+      const counts = await handler.revealSealedBallots();
+      onStatus(`Published the tally of ${counts.revealed} of ${counts.sealed} sealed ballots.`);
+      await loadAdmins();
+      onUpdated();
+    } catch (error) {
+      console.error('Revealing sealed ballots failed:', error);
+      onStatus('Revealing sealed ballots failed: ' + (error instanceof Error ? error.message : 'Unknown error'));
+    } finally {
+      setPendingAction(null);
+    }
+  };
+
+  const handleAccept = () =>
+    runAction('Accepting admin', () => handler.acceptAdmin(), 'You are now the election admin.');
+
+  const handleSetCoAdmins = () =>
+    runAction('Updating co-admins', () => {
+      const coAdmins = coAdminsText
+        .split(/[\s,]+/)
+        .map(address => address.trim())
+        .filter(address => address.length > 0);
+      return handler.setCoAdmins(coAdmins, Number(threshold));
+    }, 'Co-admins updated.');
+
+  if (!connectedAddress || !admins || (!isAdmin && !isCoAdmin && !isPendingAdmin)) {
+    return null;
+  }
+
+  const adminCount = admins.coAdmins.length + 1;
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-6">
+      <h2 className="text-2xl font-bold text-gray-900 dark:text-white mb-6">
+        Admin Panel
+      </h2>
+
+      <dl className="space-y-2 text-sm">
+        <div>
+          <dt className="text-gray-500 dark:text-gray-400">Admin</dt>
+          <dd className="font-mono text-gray-900 dark:text-white break-all">{admins.admin.toString()}</dd>
+        </div>
+        {admins.coAdmins.length > 0 && (
+          <div>
+            <dt className="text-gray-500 dark:text-gray-400">Co-admins</dt>
+            {admins.coAdmins.map((address) => (
+              <dd key={address.toString()} className="font-mono text-gray-900 dark:text-white break-all">
+                {address.toString()}
+              </dd>
+            ))}
+          </div>
+        )}
+        {admins.pendingAdmin && (
+          <div>
+            <dt className="text-gray-500 dark:text-gray-400">Pending admin</dt>
+            <dd className="font-mono text-gray-900 dark:text-white break-all">{admins.pendingAdmin.toString()}</dd>
+          </div>
+        )}
+        <div>
+          <dt className="text-gray-500 dark:text-gray-400">Ending the vote</dt>
+          <dd className="text-gray-900 dark:text-white">
+            {admins.endVoteThreshold.toString()} of {adminCount} admins · {admins.endVoteApprovals.length} approved
+          </dd>
+        </div>
+      </dl>
+
+      <div className="mt-6 space-y-4">
+        {isPendingAdmin && (
+          <button
+            onClick={handleAccept}
+            disabled={pendingAction !== null}
+            className="w-full bg-purple-600 hover:bg-purple-700 disabled:bg-gray-400 disabled:cursor-not-allowed text-white px-6 py-2 rounded-md text-sm font-medium transition-colors"
+          >
+            {pendingAction === 'Accepting admin' ? 'Accepting...' : 'Accept Admin Role'}
+          </button>
+        )}
+
+        {isAdmin && electionState === ElectionState.Draft && (
+          <button
+            onClick={handleOpenVote}
+            disabled={pendingAction !== null}
+            className="w-full bg-green-600 hover:bg-green-700 disabled:bg-gray-400 disabled:cursor-not-allowed text-white px-6 py-2 rounded-md text-sm font-medium transition-colors"
+          >
+            {pendingAction === 'Opening vote' ? 'Opening...' : 'Open Vote'}
+          </button>
+        )}
+
+        {(isAdmin || isCoAdmin) && electionState === ElectionState.Open && (
+          <button
+            onClick={handleEndVote}
+            disabled={pendingAction !== null || hasApprovedEnd}
+            className="w-full bg-red-600 hover:bg-red-700 disabled:bg-gray-400 disabled:cursor-not-allowed text-white px-6 py-2 rounded-md text-sm font-medium transition-colors"
+          >
+            {pendingAction === 'Ending vote'
+              ? 'Ending...'
+              : hasApprovedEnd ? 'End Vote Approved' : 'End Vote'}
+          </button>
+        )}
+
+        {isAdmin && electionState === ElectionState.Closed && sealedCounts && hasUnrevealedBallots && (
+          <button
+            onClick={handleReveal}
+            disabled={pendingAction !== null}
+            className="w-full bg-indigo-600 hover:bg-indigo-700 disabled:bg-gray-400 disabled:cursor-not-allowed text-white px-6 py-2 rounded-md text-sm font-medium transition-colors"
+          >
+            {pendingAction === 'Revealing sealed ballots'
+              ? 'Revealing...'
+              : `Reveal Sealed Ballots (${sealedCounts.sealed.toString()})`}
+          </button>
+        )}
+
+        {isAdmin && electionState === ElectionState.Closed && (
+          <button
+            onClick={handleFinalizeVote}
+            disabled={pendingAction !== null || hasUnrevealedBallots}
+            className="w-full bg-indigo-600 hover:bg-indigo-700 disabled:bg-gray-400 disabled:cursor-not-allowed text-white px-6 py-2 rounded-md text-sm font-medium transition-colors"
+          >
+            {pendingAction === 'Finalizing vote' ? 'Finalizing...' : 'Finalize Results'}
+          </button>
+        )}
+
+        {isAdmin && (
+          <>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                Transfer admin
+              </label>
+              <div className="flex space-x-2">
+                <input
+                  type="text"
+                  value={newAdmin}
+                  onChange={(e) => setNewAdmin(e.target.value)}
+                  placeholder="0x..."
+                  className="flex-1 border border-gray-200 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-900 dark:text-white rounded-md px-3 py-2 text-sm font-mono"
+                />
+                <button
+                  onClick={handleTransfer}
+                  disabled={!newAdmin.trim() || pendingAction !== null}
+                  className="bg-gray-600 hover:bg-gray-700 disabled:bg-gray-400 disabled:cursor-not-allowed text-white px-4 py-2 rounded-md text-sm font-medium transition-colors"
+                >
+                  {pendingAction === 'Transferring admin' ? 'Sending...' : 'Propose'}
+                </button>
+              </div>
+              <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                The new admin must accept before the role moves, and cannot while sealed ballots are unrevealed.
+              </p>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                Co-admins (up to {MAX_CO_ADMINS})
+              </label>
+              <textarea
+                value={coAdminsText}
+                onChange={(e) => setCoAdminsText(e.target.value)}
+                rows={3}
+                placeholder={'0x...\n0x...'}
+                className="w-full border border-gray-200 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-900 dark:text-white rounded-md px-3 py-2 text-xs font-mono"
+              />
+              <div className="mt-2 flex items-center space-x-2">
+                <label className="text-sm text-gray-700 dark:text-gray-300">
+                  Admins needed to end the vote
+                </label>
+                <input
+                  type="number"
+                  min={1}
+                  max={MAX_CO_ADMINS + 1}
+                  value={threshold}
+                  onChange={(e) => setThreshold(e.target.value)}
+                  className="w-20 border border-gray-200 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-900 dark:text-white rounded-md px-2 py-1 text-sm"
+                />
+                <button
+                  onClick={handleSetCoAdmins}
+                  disabled={pendingAction !== null}
+                  className="ml-auto bg-gray-600 hover:bg-gray-700 disabled:bg-gray-400 disabled:cursor-not-allowed text-white px-4 py-2 rounded-md text-sm font-medium transition-colors"
+                >
+                  {pendingAction === 'Updating co-admins' ? 'Saving...' : 'Save'}
+                </button>
+              </div>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,279 @@
+'use client';
+
+import { useState } from 'react';
+import { electionRegistry, type ElectionDeployment } from '../contracts/electionRegistry';
+import { DEFAULT_BALLOT, MAX_SEALED_CANDIDATES, parseBallot } from '../contracts/ballot';
+import { DEFAULT_VOTING_PERIOD_BLOCKS } from '../constants';
+import { VoterTree, parseVoterCsv } from '../contracts/voterAllowlist';
+
+interface CreateElectionProps {
+  connectedAddress: string | null;
+  currentBlock: number | null;
+  selectedElectionId: string | null;
+  onElectionAdded: (election: ElectionDeployment) => void;
+  onStatus: (message: string) => void;
+}
+
+export default function CreateElection({
+  connectedAddress,
+  currentBlock,
+  selectedElectionId,
+  onElectionAdded,
+  onStatus,
+}: CreateElectionProps) {
+  const [label, setLabel] = useState('');
+  const [admin, setAdmin] = useState('');
+  const [ballotJson, setBallotJson] = useState(JSON.stringify(DEFAULT_BALLOT, null, 2));
+  const [startBlock, setStartBlock] = useState('');
+  const [endBlock, setEndBlock] = useState('');
+  const [votersCsv, setVotersCsv] = useState('');
+  const [witnessVoter, setWitnessVoter] = useState('');
+  const [sealed, setSealed] = useState(false);
+  const [importJson, setImportJson] = useState('');
+  const [isDeploying, setIsDeploying] = useState(false);
+  const [isImporting, setIsImporting] = useState(false);
+
+  const handleCreate = async () => {
+    if (!connectedAddress || !label.trim()) {
+      onStatus('Please connect an account and enter an election name');
+      return;
+    }
+
+    setIsDeploying(true);
+    onStatus('Deploying election contract...');
+    try {
+      const start = startBlock.trim() ? Number(startBlock) : currentBlock ?? 0;
+      const end = endBlock.trim() ? Number(endBlock) : start + DEFAULT_VOTING_PERIOD_BLOCKS;
+      const election = await electionRegistry.createElection({
+        label: label.trim(),
+        admin: admin.trim() || connectedAddress,
+        ballot: parseBallot(ballotJson),
+        startBlock: start,
+        endBlock: end,
+        voters: parseVoterCsv(votersCsv),
+        sealed,
+      });
+      setLabel('');
+      setAdmin('');
+      setStartBlock('');
+      setEndBlock('');
+      setVotersCsv('');
+      setSealed(false);
+      onElectionAdded(election);
+      onStatus(`Election "${election.label}" deployed at ${election.address}`);
+    } catch (error) {
+      console.error('Failed to create election:', error);
+      onStatus('Failed to create election: ' + (error instanceof Error ? error.message : 'Unknown error'));
+    } finally {
+      setIsDeploying(false);
+    }
+  };
+
+  const handleExportWitness = async () => {
+    try {
+      const tree = await VoterTree.build(parseVoterCsv(votersCsv));
+      const voter = witnessVoter.trim();
+      const witnessFile = tree.exportWitnessFile(voter);
+      const blob = new Blob([JSON.stringify(witnessFile, null, 2)], { type: 'application/json' });
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `voter-witness-${voter.slice(0, 10)}.json`;
+      link.click();
+      URL.revokeObjectURL(url);
+      onStatus(`Exported the witness of ${voter} for voter root ${witnessFile.voterRoot}`);
+    } catch (error) {
+      console.error('Failed to export voter witness:', error);
+      onStatus('Failed to export voter witness: ' + (error instanceof Error ? error.message : 'Unknown error'));
+    }
+  };
+
+  const handleImport = async () => {
+    setIsImporting(true);
+    try {
+      const election = await electionRegistry.importElection(importJson);
+      setImportJson('');
+      onElectionAdded(election);
+      onStatus(`Election "${election.label}" imported and registered`);
+    } catch (error) {
+      console.error('Failed to import election:', error);
+      onStatus('Failed to import election: ' + (error instanceof Error ? error.message : 'Unknown error'));
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const handleCopyDeployParams = async () => {
+    if (!selectedElectionId) return;
+
+    try {
+      await navigator.clipboard.writeText(electionRegistry.exportElection(selectedElectionId));
+      onStatus('Election deploy params copied to clipboard');
+    } catch (error) {
+      console.error('Failed to export election:', error);
+      onStatus('Failed to copy election deploy params');
+    }
+  };
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-6">
+      <h2 className="text-2xl font-bold text-gray-900 dark:text-white mb-6">
+        Create Election
+      </h2>
+
+      <div className="space-y-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+            Election name
+          </label>
+          <input
+            type="text"
+            value={label}
+            onChange={(e) => setLabel(e.target.value)}
+            placeholder="Board Election 2025"
+            className="w-full border border-gray-200 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-900 dark:text-white rounded-md px-3 py-2 text-sm"
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+            Admin address
+          </label>
+          <input
+            type="text"
+            value={admin}
+            onChange={(e) => setAdmin(e.target.value)}
+            placeholder={connectedAddress ?? '0x...'}
+            className="w-full border border-gray-200 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-900 dark:text-white rounded-md px-3 py-2 text-sm font-mono"
+          />
+          <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+            Defaults to the connected account
+          </p>
+        </div>
+        <div className="grid grid-cols-2 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+              Start block
+            </label>
+            <input
+              type="number"
+              min={0}
+              value={startBlock}
+              onChange={(e) => setStartBlock(e.target.value)}
+              placeholder={currentBlock !== null ? String(currentBlock) : '0'}
+              className="w-full border border-gray-200 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-900 dark:text-white rounded-md px-3 py-2 text-sm"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+              End block
+            </label>
+            <input
+              type="number"
+              min={0}
+              value={endBlock}
+              onChange={(e) => setEndBlock(e.target.value)}
+              placeholder={`start + ${DEFAULT_VOTING_PERIOD_BLOCKS}`}
+              className="w-full border border-gray-200 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-900 dark:text-white rounded-md px-3 py-2 text-sm"
+            />
+          </div>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+            Ballot definition
+          </label>
+          <textarea
+            value={ballotJson}
+            onChange={(e) => setBallotJson(e.target.value)}
+            rows={8}
+            className="w-full border border-gray-200 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-900 dark:text-white rounded-md px-3 py-2 text-xs font-mono"
+          />
+          <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+            JSON with a title, candidates (id, name, optional description) and an optional method (&quot;plurality&quot;, &quot;ranked&quot; or &quot;approval&quot;). Its hash is committed on-chain.
+          </p>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+            Eligible voters (CSV)
+          </label>
+          <textarea
+            value={votersCsv}
+            onChange={(e) => setVotersCsv(e.target.value)}
+            rows={4}
+            placeholder={'address,weight\n0x...,100\n0x...,250'}
+            className="w-full border border-gray-200 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-900 dark:text-white rounded-md px-3 py-2 text-xs font-mono"
+          />
+          <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+            Leave empty for an election open to every account. The optional weight column holds each
+            voter&apos;s weight, e.g. a token balance you took at a snapshot block; weighted elections must be
+            sealed. Only the Merkle root goes on-chain: download each voter&apos;s witness file and send it to them.
+          </p>
+          <div className="mt-2 flex items-center gap-2">
+            <input
+              type="text"
+              value={witnessVoter}
+              onChange={(e) => setWitnessVoter(e.target.value)}
+              placeholder="Voter address (0x...)"
+              className="flex-1 border border-gray-200 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-900 dark:text-white rounded-md px-3 py-1 text-xs font-mono"
+            />
+            <button
+              onClick={handleExportWitness}
+              disabled={!votersCsv.trim() || !witnessVoter.trim()}
+              className="text-xs text-blue-600 dark:text-blue-400 hover:underline disabled:text-gray-400 disabled:no-underline"
+            >
+              Download witness
+            </button>
+          </div>
+        </div>
+        <div>
+          <label className="flex items-center gap-2 text-sm font-medium text-gray-700 dark:text-gray-300">
+            <input
+              type="checkbox"
+              checked={sealed}
+              onChange={(e) => setSealed(e.target.checked)}
+              className="text-blue-600"
+            />
+            Seal tallies until the vote ends
+          </label>
+          <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+            Ballots are encrypted to the admin, who publishes their totals after ending the vote. Candidate ids
+            must be 1 to {MAX_SEALED_CANDIDATES}; ranked ballots and vote changes are not supported in sealed elections.
+          </p>
+        </div>
+        <button
+          onClick={handleCreate}
+          disabled={!connectedAddress || !label.trim() || isDeploying}
+          className="w-full bg-green-600 hover:bg-green-700 disabled:bg-gray-400 disabled:cursor-not-allowed text-white px-6 py-3 rounded-md font-medium transition-colors"
+        >
+          {isDeploying ? 'Deploying...' : 'Create Election'}
+        </button>
+      </div>
+
+      <div className="mt-8 pt-6 border-t border-gray-200 dark:border-gray-700 space-y-4">
+        <h3 className="text-lg font-semibold text-gray-900 dark:text-white">
+          Share or Import
+        </h3>
+        <button
+          onClick={handleCopyDeployParams}
+          disabled={!selectedElectionId}
+          className="w-full bg-gray-600 hover:bg-gray-700 disabled:bg-gray-400 disabled:cursor-not-allowed text-white px-6 py-2 rounded-md text-sm font-medium transition-colors"
+        >
+          Copy Selected Election Deploy Params
+        </button>
+        <textarea
+          value={importJson}
+          onChange={(e) => setImportJson(e.target.value)}
+          placeholder="Paste election deploy params JSON"
+          rows={4}
+          className="w-full border border-gray-200 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-900 dark:text-white rounded-md px-3 py-2 text-xs font-mono"
+        />
+        <button
+          onClick={handleImport}
+          disabled={!importJson.trim() || isImporting}
+          className="w-full bg-purple-600 hover:bg-purple-700 disabled:bg-gray-400 disabled:cursor-not-allowed text-white px-6 py-2 rounded-md text-sm font-medium transition-colors"
+        >
+          {isImporting ? 'Importing...' : 'Import Election'}
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,186 @@
+'use client';
+
+import { useState } from 'react';
+import { FEE_METHODS, describeFeeStrategy, type FeeMethod, type FeeStrategy } from '../fees';
+
+interface FeeSettingsProps {
+  strategy: FeeStrategy;
+  disabled?: boolean;
+  // Null resets to the network's default strategy
+  onChange: (strategy: FeeStrategy | null) => void;
+}
+
+const inputClassName = 'w-full border border-gray-200 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-900 dark:text-white rounded-md px-2 py-1 text-sm font-mono';
+
+export default function FeeSettings({ strategy, disabled = false, onChange }: FeeSettingsProps) {
+  const [isEditing, setIsEditing] = useState(false);
+  const [method, setMethod] = useState<FeeMethod>(strategy.method);
+  const [fpcMode, setFpcMode] = useState<'private' | 'public'>('private');
+  const [fpc, setFpc] = useState('');
+  const [token, setToken] = useState('');
+  const [claimAmount, setClaimAmount] = useState('');
+  const [claimSecret, setClaimSecret] = useState('');
+  const [messageLeafIndex, setMessageLeafIndex] = useState('');
+
+  const handleEdit = () => {
+    setMethod(strategy.method);
+    if (strategy.method === 'fpc') {
+      setFpcMode(strategy.mode);
+      setFpc(strategy.fpc);
+      setToken(strategy.token);
+    }
+    setIsEditing(true);
+  };
+
+  const handleSave = () => {
+    switch (method) {
+      case 'sponsored':
+      case 'fee-juice':
+        onChange({ method });
+        break;
+      case 'fpc':
+        onChange({ method, mode: fpcMode, fpc: fpc.trim(), token: token.trim() });
+        break;
+      case 'fee-juice-claim':
+        onChange({
+          method,
+          claim: {
+            claimAmount: claimAmount.trim(),
+            claimSecret: claimSecret.trim(),
+            messageLeafIndex: messageLeafIndex.trim(),
+          },
+        });
+        break;
+    }
+    setIsEditing(false);
+  };
+
+  const handleReset = () => {
+    onChange(null);
+    setIsEditing(false);
+  };
+
+  const canSave = method === 'fpc'
+    ? !!fpc.trim() && !!token.trim()
+    : method === 'fee-juice-claim'
+      ? !!claimAmount.trim() && !!claimSecret.trim() && !!messageLeafIndex.trim()
+      : true;
+
+  return (
+    <div className="text-sm">
+      <div className="flex items-center justify-between">
+        <p className="text-gray-600 dark:text-gray-400">
+          Fees paid with: <span className="font-medium text-gray-900 dark:text-white">{describeFeeStrategy(strategy)}</span>
+        </p>
+        {!isEditing && (
+          <button
+            onClick={handleEdit}
+            disabled={disabled}
+            className="text-blue-600 dark:text-blue-400 hover:underline disabled:text-gray-400 disabled:no-underline"
+          >
+            Change
+          </button>
+        )}
+      </div>
+
+      {isEditing && (
+        <div className="mt-3 border border-gray-200 dark:border-gray-700 rounded-md p-3 space-y-3">
+          <select
+            value={method}
+            onChange={(e) => setMethod(e.target.value as FeeMethod)}
+            className={inputClassName}
+          >
+            {FEE_METHODS.map(({ method: value, label }) => (
+              <option key={value} value={value}>
+                {label}
+              </option>
+            ))}
+          </select>
+
+          {method === 'fee-juice' && (
+            <p className="text-xs text-gray-500 dark:text-gray-400">
+              The account needs a fee juice balance on this network.
+            </p>
+          )}
+          {method === 'fpc' && (
+            <>
+              <select
+                value={fpcMode}
+                onChange={(e) => setFpcMode(e.target.value as 'private' | 'public')}
+                className={inputClassName}
+              >
+                <option value="private">Private payment</option>
+                <option value="public">Public payment</option>
+              </select>
+              <input
+                type="text"
+                value={fpc}
+                onChange={(e) => setFpc(e.target.value)}
+                placeholder="FPC address (0x...)"
+                className={inputClassName}
+              />
+              <input
+                type="text"
+                value={token}
+                onChange={(e) => setToken(e.target.value)}
+                placeholder="Token address (0x...)"
+                className={inputClassName}
+              />
+            </>
+          )}
+          {method === 'fee-juice-claim' && (
+            <>
+              <input
+                type="text"
+                value={claimAmount}
+                onChange={(e) => setClaimAmount(e.target.value)}
+                placeholder="Claim amount"
+                className={inputClassName}
+              />
+              <input
+                type="text"
+                value={claimSecret}
+                onChange={(e) => setClaimSecret(e.target.value)}
+                placeholder="Claim secret (0x...)"
+                className={inputClassName}
+              />
+              <input
+                type="text"
+                value={messageLeafIndex}
+                onChange={(e) => setMessageLeafIndex(e.target.value)}
+                placeholder="Message leaf index"
+                className={inputClassName}
+              />
+              <p className="text-xs text-gray-500 dark:text-gray-400">
+                Use the values printed when bridging fee juice from L1. After the claim is spent,
+                fees are paid from the claimed balance.
+              </p>
+            </>
+          )}
+
+          <div className="flex justify-end space-x-2">
+            <button
+              onClick={handleReset}
+              className="text-gray-500 dark:text-gray-400 hover:underline"
+            >
+              Use network default
+            </button>
+            <button
+              onClick={() => setIsEditing(false)}
+              className="bg-gray-200 hover:bg-gray-300 dark:bg-gray-700 dark:hover:bg-gray-600 text-gray-900 dark:text-white px-3 py-1 rounded-md font-medium transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleSave}
+              disabled={!canSave}
+              className="bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400 disabled:cursor-not-allowed text-white px-3 py-1 rounded-md font-medium transition-colors"
+            >
+              Save
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,66 @@
+'use client';
+
+import type { BallotCandidate } from '../contracts/ballot';
+import type { InstantRunoffResult } from '../contracts/rankedChoice';
+
+interface InstantRunoffRoundsProps {
+  candidates: BallotCandidate[];
+  result: InstantRunoffResult | null;
+}
+
+export default function InstantRunoffRounds({ candidates, result }: InstantRunoffRoundsProps) {
+  const candidateName = (candidateId: number) =>
+    candidates.find(candidate => candidate.id === candidateId)?.name ?? `Candidate ${candidateId}`;
+
+  if (!result || result.totalWeight === BigInt(0)) {
+    return (
+      <p className="text-sm text-gray-500 dark:text-gray-400">
+        No ranked ballots have been counted yet.
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {result.rounds.map((round) => (
+        <div key={round.round} className="p-4 bg-gray-50 dark:bg-gray-700 rounded-lg">
+          <h3 className="text-sm font-semibold text-gray-900 dark:text-white mb-2">
+            Round {round.round}
+          </h3>
+          <ul className="space-y-1 text-sm">
+            {candidates
+              .filter(candidate => round.tallies[candidate.id] !== undefined)
+              .map((candidate) => (
+                <li
+                  key={candidate.id}
+                  className={`flex justify-between ${
+                    round.eliminated.indexOf(candidate.id) !== -1
+                      ? 'text-red-600 dark:text-red-300 line-through'
+                      : 'text-gray-700 dark:text-gray-300'
+                  }`}
+                >
+                  <span>{candidate.name}</span>
+                  <span className="font-medium">{round.tallies[candidate.id].toString()}</span>
+                </li>
+              ))}
+          </ul>
+          {round.exhausted > BigInt(0) && (
+            <p className="mt-2 text-xs text-gray-500 dark:text-gray-400">
+              Exhausted ballots: {round.exhausted.toString()}
+            </p>
+          )}
+          {round.eliminated.length > 0 && (
+            <p className="mt-2 text-xs text-red-600 dark:text-red-300">
+              Eliminated: {round.eliminated.map(candidateName).join(', ')}
+            </p>
+          )}
+        </div>
+      ))}
+      <p className="text-sm font-medium text-gray-900 dark:text-white">
+        {result.winner !== null
+          ? `Winner: ${candidateName(result.winner)}`
+          : 'No winner: the remaining candidates are tied'}
+      </p>
+    </div>
+  );
+}
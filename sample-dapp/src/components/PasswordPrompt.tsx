@@ -0,0 +1,102 @@
+'use client';
+
+import { useState } from 'react';
+import { MIN_PASSWORD_LENGTH } from '../keystore';
+
+interface PasswordPromptProps {
+  title: string;
+  description: string;
+  submitLabel: string;
+  // Ask for the password twice when choosing a new one
+  confirm?: boolean;
+  isSubmitting: boolean;
+  // Extra fields shown above the password, e.g. options for a new account
+  children?: React.ReactNode;
+  onSubmit: (password: string) => void;
+  onCancel: () => void;
+}
+
+export default function PasswordPrompt({
+  title,
+  description,
+  submitLabel,
+  confirm = false,
+  isSubmitting,
+  children,
+  onSubmit,
+  onCancel,
+}: PasswordPromptProps) {
+  const [password, setPassword] = useState('');
+  const [confirmation, setConfirmation] = useState('');
+
+  const tooShort = confirm && password.length < MIN_PASSWORD_LENGTH;
+  const mismatch = confirm && password !== confirmation;
+  const canSubmit = password.length > 0 && !tooShort && !mismatch && !isSubmitting;
+
+  const handleSubmit = (event: React.FormEvent) => {
+    event.preventDefault();
+    if (canSubmit) {
+      onSubmit(password);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 px-4">
+      <form
+        onSubmit={handleSubmit}
+        className="w-full max-w-md bg-white dark:bg-gray-800 rounded-lg shadow-lg p-6 space-y-4"
+      >
+        <div>
+          <h2 className="text-xl font-bold text-gray-900 dark:text-white">{title}</h2>
+          <p className="mt-1 text-sm text-gray-500 dark:text-gray-400">{description}</p>
+        </div>
+        {children}
+        <input
+          type="password"
+          autoFocus
+          autoComplete={confirm ? 'new-password' : 'current-password'}
+          value={password}
+          onChange={(e) => setPassword(e.target.value)}
+          placeholder="Password"
+          className="w-full border border-gray-200 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-900 dark:text-white rounded-md px-3 py-2 text-sm"
+        />
+        {confirm && (
+          <>
+            <input
+              type="password"
+              autoComplete="new-password"
+              value={confirmation}
+              onChange={(e) => setConfirmation(e.target.value)}
+              placeholder="Confirm password"
+              className="w-full border border-gray-200 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-900 dark:text-white rounded-md px-3 py-2 text-sm"
+            />
+            <p className="text-xs text-gray-500 dark:text-gray-400">
+              {tooShort
+                ? `Use at least ${MIN_PASSWORD_LENGTH} characters.`
+                : mismatch && confirmation
+                  ? 'Passwords do not match.'
+                  : 'There is no way to recover the account if this password is lost.'}
+            </p>
+          </>
+        )}
+        <div className="flex justify-end space-x-2">
+          <button
+            type="button"
+            onClick={onCancel}
+            disabled={isSubmitting}
+            className="bg-gray-200 hover:bg-gray-300 dark:bg-gray-700 dark:hover:bg-gray-600 text-gray-900 dark:text-white px-4 py-2 rounded-md text-sm font-medium transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            type="submit"
+            disabled={!canSubmit}
+            className="bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400 disabled:cursor-not-allowed text-white px-4 py-2 rounded-md text-sm font-medium transition-colors"
+          >
+            {isSubmitting ? 'Working...' : submitLabel}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+}
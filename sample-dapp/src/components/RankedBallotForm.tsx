@@ -0,0 +1,113 @@
+'use client';
+
+import type { BallotCandidate } from '../contracts/ballot';
+import { MAX_RANKINGS } from '../contracts/rankedChoice';
+
+interface RankedBallotFormProps {
+  candidates: BallotCandidate[];
+  rankings: number[];
+  onChange: (rankings: number[]) => void;
+}
+
+export default function RankedBallotForm({ candidates, rankings, onChange }: RankedBallotFormProps) {
+  const toggleCandidate = (candidateId: number) => {
+    if (rankings.indexOf(candidateId) !== -1) {
+      onChange(rankings.filter(id => id !== candidateId));
+    } else if (rankings.length < MAX_RANKINGS) {
+      onChange([...rankings, candidateId]);
+    }
+  };
+
+  const moveCandidate = (index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= rankings.length) return;
+    const reordered = rankings.slice();
+    reordered[index] = rankings[target];
+    reordered[target] = rankings[index];
+    onChange(reordered);
+  };
+
+  const candidateName = (candidateId: number) =>
+    candidates.find(candidate => candidate.id === candidateId)?.name ?? `Candidate ${candidateId}`;
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-3">
+          Pick candidates in order of preference (up to {MAX_RANKINGS}):
+        </label>
+        <div className="space-y-2">
+          {candidates.map((candidate) => {
+            const rank = rankings.indexOf(candidate.id);
+            return (
+              <button
+                key={candidate.id}
+                type="button"
+                onClick={() => toggleCandidate(candidate.id)}
+                disabled={rank === -1 && rankings.length >= MAX_RANKINGS}
+                className="w-full flex items-center p-3 border border-gray-200 dark:border-gray-600 rounded-lg text-left hover:bg-gray-50 dark:hover:bg-gray-700 disabled:opacity-50 transition-colors"
+              >
+                <span className="w-7 h-7 mr-3 flex items-center justify-center rounded-full bg-blue-100 dark:bg-blue-900 text-blue-600 dark:text-blue-300 text-sm font-medium">
+                  {rank === -1 ? '' : rank + 1}
+                </span>
+                <div>
+                  <span className="text-gray-900 dark:text-white">
+                    {candidate.name}
+                  </span>
+                  {candidate.description && (
+                    <p className="text-xs text-gray-500 dark:text-gray-400">
+                      {candidate.description}
+                    </p>
+                  )}
+                </div>
+              </button>
+            );
+          })}
+        </div>
+      </div>
+
+      {rankings.length > 0 && (
+        <div>
+          <div className="flex items-center justify-between mb-2">
+            <span className="text-sm font-medium text-gray-700 dark:text-gray-300">Your ranking</span>
+            <button
+              type="button"
+              onClick={() => onChange([])}
+              className="text-xs text-blue-600 dark:text-blue-400 hover:underline"
+            >
+              Clear
+            </button>
+          </div>
+          <ol className="space-y-1">
+            {rankings.map((candidateId, index) => (
+              <li
+                key={candidateId}
+                className="flex items-center justify-between px-3 py-2 bg-gray-50 dark:bg-gray-700 rounded-md text-sm text-gray-900 dark:text-white"
+              >
+                <span>{index + 1}. {candidateName(candidateId)}</span>
+                <span className="space-x-2">
+                  <button
+                    type="button"
+                    onClick={() => moveCandidate(index, -1)}
+                    disabled={index === 0}
+                    className="text-gray-500 hover:text-gray-900 dark:hover:text-white disabled:opacity-30"
+                  >
+                    ↑
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => moveCandidate(index, 1)}
+                    disabled={index === rankings.length - 1}
+                    className="text-gray-500 hover:text-gray-900 dark:hover:text-white disabled:opacity-30"
+                  >
+                    ↓
+                  </button>
+                </span>
+              </li>
+            ))}
+          </ol>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,16 +1,23 @@
-// Private Voting Contract Address
-export const PRIVATE_VOTING_CONTRACT_ADDRESS = "0x163d817a92bd156a43b214eeecae266a143a66ca801807c5a49911ae83664529";
+import type { ElectionDeployment } from './contracts/electionRegistry';
+import type { FeeStrategy } from './fees';
 
-// Contract deployment parameters
-export const PRIVATE_VOTING_PARAMS = {
-    salt: "0x2118acbfc7e15e40c7df4c8c7eb202b4ea399a0b200ad7384227f076df598d17",
-    txHash: "0x23089fa11a07fc8db5d19fc8087199e16727d8cf796a3cbab92f06d7fd327f60",
-    deployer: "0x279acb41a60fcce801cec69b3c7b23691e34cd3adb0149af2373acc8e08b97d2",
-    initHash: "0x0696900018e2a412c3e8fafff6a69d6a7feafa04f4b98ad86cf6036064e7fa89"
-}
+// Largest block number a voting window can end at (u32 on-chain)
+export const MAX_BLOCK_NUMBER = 2 ** 32 - 1;
 
-// Contract configuration
-export const CONTRACT_CONFIG = {
-  PRIVATE_VOTING_ADDRESS: PRIVATE_VOTING_CONTRACT_ADDRESS,
-  // Add other contract addresses here as needed
-};
\ No newline at end of file
+// Default voting period for new elections, in blocks
+export const DEFAULT_VOTING_PERIOD_BLOCKS = 1000;
+
+// How often the results panel checks the node for a new block, in milliseconds
+export const RESULTS_POLL_INTERVAL_MS = 5000;
+
+// Fee strategy for nodes without an entry below
+export const DEFAULT_FEE_STRATEGY: FeeStrategy = { method: 'sponsored' };
+
+// Fee strategy per network, keyed by node URL. Networks without a sponsored FPC need fee juice or an FPC.
+export const NETWORK_FEE_STRATEGIES: Record<string, FeeStrategy> = {
+  'http://localhost:8080': { method: 'sponsored' },
+};
+
+// Elections that every client registers out of the box. The original sample deployment predates the
+// current constructor and can no longer be registered; redeploy and list it here to bring it back.
+export const DEFAULT_ELECTIONS: ElectionDeployment[] = [];
@@ -0,0 +1,42 @@
+import { AztecAddress } from '@aztec/aztec.js';
+
+// Must match MAX_CO_ADMINS in src/admins.nr
+export const MAX_CO_ADMINS = 4;
+// Must match MAX_ADMINS in src/admins.nr: the admin plus every co-admin slot
+export const MAX_ADMINS = MAX_CO_ADMINS + 1;
+
+/**
+ * Validate co-admin addresses and an end_vote threshold, padding the co-admins with the zero address
+ */
+export function encodeCoAdmins(admin: string, coAdmins: string[], endVoteThreshold: number): AztecAddress[] {
+  if (coAdmins.length > MAX_CO_ADMINS) {
+    throw new Error(`${coAdmins.length} co-admins given; the maximum is ${MAX_CO_ADMINS}`);
+  }
+
+  const adminAddress = AztecAddress.fromString(admin);
+  const addresses = coAdmins.map(coAdmin => AztecAddress.fromString(coAdmin));
+  addresses.forEach((address, index) => {
+    if (address.isZero()) {
+      throw new Error('Co-admin cannot be the zero address');
+    }
+    if (address.equals(adminAddress)) {
+      throw new Error('Admin cannot also be a co-admin');
+    }
+    if (addresses.findIndex(other => other.equals(address)) !== index) {
+      throw new Error(`Co-admin ${address.toString()} listed more than once`);
+    }
+  });
+
+  if (!Number.isSafeInteger(endVoteThreshold) || endVoteThreshold < 1) {
+    throw new Error('Threshold must be at least 1');
+  }
+  if (endVoteThreshold > addresses.length + 1) {
+    throw new Error('Threshold exceeds the number of admins');
+  }
+
+  const padded = addresses.slice();
+  while (padded.length < MAX_CO_ADMINS) {
+    padded.push(AztecAddress.ZERO);
+  }
+  return padded;
+}
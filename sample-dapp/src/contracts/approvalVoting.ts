@@ -0,0 +1,28 @@
+// Must match MAX_APPROVALS in src/approval.nr
+export const MAX_APPROVALS = 5;
+
+/**
+ * Validate a voter's approved candidates and pad them with zeros to the contract's fixed length
+ */
+export function encodeApprovals(candidateIds: number[]): number[] {
+  if (candidateIds.length === 0) {
+    throw new Error('Ballot must approve at least one candidate');
+  }
+  if (candidateIds.length > MAX_APPROVALS) {
+    throw new Error(`Ballot approves ${candidateIds.length} candidates; the maximum is ${MAX_APPROVALS}`);
+  }
+  candidateIds.forEach((candidateId, index) => {
+    if (!Number.isSafeInteger(candidateId) || candidateId <= 0) {
+      throw new Error(`Invalid candidate id ${candidateId}`);
+    }
+    if (candidateIds.indexOf(candidateId) !== index) {
+      throw new Error(`Candidate ${candidateId} approved more than once`);
+    }
+  });
+
+  const padded = candidateIds.slice();
+  while (padded.length < MAX_APPROVALS) {
+    padded.push(0);
+  }
+  return padded;
+}
@@ -0,0 +1,116 @@
+import { Fr } from '@aztec/aztec.js';
+import { sha256ToField } from '@aztec/foundation/crypto';
+
+// How voters fill in the ballot and how it is counted
+export type VotingMethod = 'plurality' | 'ranked' | 'approval';
+
+export interface BallotCandidate {
+  id: number;
+  name: string;
+  description?: string;
+}
+
+export interface BallotDefinition {
+  title: string;
+  candidates: BallotCandidate[];
+  // Defaults to plurality
+  method?: VotingMethod;
+}
+
+// Must match MAX_SEALED_CANDIDATES in src/sealed_tally_note.nr: sealed elections count candidate ids 1 through this
+export const MAX_SEALED_CANDIDATES = 7;
+
+// Ballot used by elections that were deployed without their own definition
+export const DEFAULT_BALLOT: BallotDefinition = {
+  title: 'Private Voting',
+  candidates: [
+    { id: 1, name: 'Candidate 1' },
+    { id: 2, name: 'Candidate 2' },
+    { id: 3, name: 'Candidate 3' },
+    { id: 4, name: 'Candidate 4' },
+    { id: 5, name: 'Candidate 5' },
+  ],
+};
+
+/**
+ * Validate an untrusted ballot definition and return a normalized copy
+ */
+export function validateBallot(value: unknown): BallotDefinition {
+  const ballot = value as Partial<BallotDefinition> | null;
+  if (!ballot || typeof ballot.title !== 'string' || !ballot.title.trim()) {
+    throw new Error('Invalid ballot: missing "title"');
+  }
+  if (
+    ballot.method !== undefined &&
+    ballot.method !== 'plurality' &&
+    ballot.method !== 'ranked' &&
+    ballot.method !== 'approval'
+  ) {
+    throw new Error(`Invalid ballot: unknown voting method "${ballot.method}"`);
+  }
+  if (!Array.isArray(ballot.candidates) || ballot.candidates.length === 0) {
+    throw new Error('Invalid ballot: "candidates" must be a non-empty array');
+  }
+
+  const seenIds = new Set<number>();
+  const candidates = ballot.candidates.map((candidate, index) => {
+    const { id, name, description } = (candidate ?? {}) as Partial<BallotCandidate>;
+    if (typeof id !== 'number' || !Number.isSafeInteger(id) || id <= 0) {
+      throw new Error(`Invalid ballot: candidate ${index} must have a positive integer "id"`);
+    }
+    if (seenIds.has(id)) {
+      throw new Error(`Invalid ballot: duplicate candidate id ${id}`);
+    }
+    if (typeof name !== 'string' || !name.trim()) {
+      throw new Error(`Invalid ballot: candidate ${id} is missing "name"`);
+    }
+    if (description !== undefined && typeof description !== 'string') {
+      throw new Error(`Invalid ballot: candidate ${id} has a non-string "description"`);
+    }
+    seenIds.add(id);
+    return description ? { id, name, description } : { id, name };
+  });
+
+  return ballot.method && ballot.method !== 'plurality'
+    ? { title: ballot.title, candidates, method: ballot.method }
+    : { title: ballot.title, candidates };
+}
+
+/**
+ * Parse and validate a ballot definition from JSON
+ */
+export function parseBallot(json: string): BallotDefinition {
+  return validateBallot(JSON.parse(json));
+}
+
+/**
+ * Hash a ballot definition to the Field committed on-chain at construction.
+ * Keys are written in a fixed order so every client derives the same hash.
+ * The method is only included when it is not plurality, so plurality ballots keep their original hash.
+ */
+export function computeBallotHash(ballot: BallotDefinition): Fr {
+  const canonical = JSON.stringify({
+    title: ballot.title,
+    candidates: ballot.candidates.map(({ id, name, description }) => ({
+      id,
+      name,
+      description: description ?? '',
+    })),
+    ...(ballot.method && ballot.method !== 'plurality' ? { method: ballot.method } : {}),
+  });
+  return sha256ToField([Buffer.from(canonical)]);
+}
+
+/**
+ * Get a ballot's voting method
+ */
+export function getVotingMethod(ballot: BallotDefinition): VotingMethod {
+  return ballot.method ?? 'plurality';
+}
+
+/**
+ * Check whether a candidate id is on the ballot
+ */
+export function isOnBallot(ballot: BallotDefinition, candidateId: number): boolean {
+  return ballot.candidates.some(candidate => candidate.id === candidateId);
+}
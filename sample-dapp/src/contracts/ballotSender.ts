@@ -0,0 +1,27 @@
+import { CompleteAddress, Fr } from '@aztec/aztec.js';
+import { poseidon2Hash } from '@aztec/foundation/crypto';
+
+// Separate the ballot sender's keys from anything else derived from an election's salt
+const BALLOT_SENDER_SECRET_KEY_DOMAIN = new Fr(1);
+const BALLOT_SENDER_PARTIAL_ADDRESS_DOMAIN = new Fr(2);
+
+export interface BallotSender {
+  secretKey: Fr;
+  partialAddress: Fr;
+  completeAddress: CompleteAddress;
+}
+
+/**
+ * Derive the account sealed ballots of an election are sent from.
+ *
+ * Note logs are tagged with a secret shared by their sender and recipient, and the recipient only
+ * finds notes from senders it knows. Voters send sealed ballots from this well-known account
+ * instead of their own, so the tallier discovers every ballot by knowing one sender and never
+ * learns who voted. Anyone holding the deploy params can derive its keys; they only tag logs.
+ */
+export async function computeBallotSender(salt: Fr): Promise<BallotSender> {
+  const secretKey = await poseidon2Hash([salt, BALLOT_SENDER_SECRET_KEY_DOMAIN]);
+  const partialAddress = await poseidon2Hash([salt, BALLOT_SENDER_PARTIAL_ADDRESS_DOMAIN]);
+  const completeAddress = await CompleteAddress.fromSecretKeyAndPartialAddress(secretKey, partialAddress);
+  return { secretKey, partialAddress, completeAddress };
+}
@@ -0,0 +1,95 @@
+import { AztecAddress, Fr } from '@aztec/aztec.js';
+
+/**
+ * Turns a value returned by `simulate()` into a typed result, throwing when its shape is unexpected.
+ * aztec.js decodes fields and integers to bigint, bools to boolean, AztecAddress structs to
+ * AztecAddress, and arrays and tuples to arrays.
+ */
+export type Decoder<T> = (value: unknown) => T;
+
+/**
+ * Describe an unexpected value for error messages
+ */
+function describe(value: unknown): string {
+  if (value === null || value === undefined) {
+    return String(value);
+  }
+  if (Array.isArray(value)) {
+    return `an array of length ${value.length}`;
+  }
+  if (typeof value === 'object') {
+    return `an object (${value.constructor ? value.constructor.name : 'unknown'})`;
+  }
+  return `${typeof value} ${String(value)}`;
+}
+
+/**
+ * Decode a field or integer return value
+ */
+export const decodeBigInt: Decoder<bigint> = value => {
+  if (typeof value !== 'bigint') {
+    throw new Error(`Expected a field or integer but got ${describe(value)}`);
+  }
+  return value;
+};
+
+/**
+ * Decode a field return value as an Fr
+ */
+export const decodeField: Decoder<Fr> = value => new Fr(decodeBigInt(value));
+
+/**
+ * Decode a small integer return value (u8, u32) as a number
+ */
+export const decodeNumber: Decoder<number> = value => {
+  const decoded = Number(decodeBigInt(value));
+  if (!Number.isSafeInteger(decoded)) {
+    throw new Error(`Expected an integer that fits in a number but got ${String(value)}`);
+  }
+  return decoded;
+};
+
+/**
+ * Decode a bool return value
+ */
+export const decodeBoolean: Decoder<boolean> = value => {
+  if (typeof value !== 'boolean') {
+    throw new Error(`Expected a bool but got ${describe(value)}`);
+  }
+  return value;
+};
+
+/**
+ * Decode an AztecAddress return value
+ */
+export const decodeAddress: Decoder<AztecAddress> = value => {
+  if (!(value instanceof AztecAddress)) {
+    throw new Error(`Expected an AztecAddress but got ${describe(value)}`);
+  }
+  return value;
+};
+
+/**
+ * Decode a fixed-size array whose items all share one decoder
+ */
+export function decodeArray<T>(decodeItem: Decoder<T>, length: number): Decoder<T[]> {
+  return value => {
+    if (!Array.isArray(value) || value.length !== length) {
+      throw new Error(`Expected an array of length ${length} but got ${describe(value)}`);
+    }
+    return value.map(item => decodeItem(item));
+  };
+}
+
+/**
+ * Decode a tuple return value, one decoder per position
+ */
+export function decodeTuple<T extends unknown[]>(...decoders: { [K in keyof T]: Decoder<T[K]> }): Decoder<T> {
+  const itemDecoders = decoders as Decoder<unknown>[];
+  return value => {
+    if (!Array.isArray(value) || value.length !== itemDecoders.length) {
+      throw new Error(`Expected a tuple of length ${itemDecoders.length} but got ${describe(value)}`);
+    }
+    return itemDecoders.map((decodeItem, index) => decodeItem(value[index])) as T;
+  };
+}
@@ -0,0 +1,394 @@
+import { AztecAddress, Fr, getContractInstanceFromDeployParams, loadContractArtifact } from '@aztec/aztec.js';
+import { DEFAULT_ELECTIONS, MAX_BLOCK_NUMBER } from '../constants';
+import {
+  DEFAULT_BALLOT,
+  MAX_SEALED_CANDIDATES,
+  computeBallotHash,
+  getVotingMethod,
+  validateBallot,
+  type BallotDefinition,
+} from './ballot';
+import { computeBallotSender } from './ballotSender';
+import EasyPrivateVotingJson from './artifacts/private_voting-EasyPrivateVoting.json';
+import { EasyPrivateVotingContract } from './artifacts/EasyPrivateVoting';
+import { PrivateVotingContractHandler } from './privateVotingContract';
+import { VoterTree, isWeighted, type VoterEntry } from './voterAllowlist';
+import { saveVoterWitness } from './voterWitnesses';
+import { wallet } from '../wallet-browser';
+
+const ElectionsStorageKey = 'aztec-elections';
+
+export interface ElectionDeployment {
+  id: string;
+  label: string;
+  address: string;
+  salt: string;
+  deployer: string;
+  admin: string;
+  txHash?: string;
+  ballot: BallotDefinition;
+  startBlock: number;
+  endBlock: number;
+  // Root of the voter allowlist; omitted for elections open to every account. The voter list itself
+  // stays with the admin, who hands each voter their own witness.
+  voterRoot?: string;
+  // Voters on the allowlist carry weights other than 1
+  weighted?: boolean;
+  // Ballots are sent encrypted to the admin and only tallied once the vote ends
+  sealed?: boolean;
+}
+
+export interface CreateElectionParams {
+  label: string;
+  admin: string;
+  ballot: BallotDefinition;
+  startBlock: number;
+  endBlock: number;
+  voters?: VoterEntry[];
+  sealed?: boolean;
+}
+
+export class ElectionRegistry {
+  private defaults: ElectionDeployment[];
+  private handlers = new Map<string, PrivateVotingContractHandler>();
+
+  constructor(defaults: ElectionDeployment[] = DEFAULT_ELECTIONS) {
+    this.defaults = defaults;
+  }
+
+  /**
+   * List every known election, built-in ones first
+   */
+  listElections(): ElectionDeployment[] {
+    const defaultIds = new Set(this.defaults.map(election => election.id));
+    const stored = this.getStoredElections().filter(election => !defaultIds.has(election.id));
+    return [...this.defaults, ...stored];
+  }
+
+  /**
+   * Get an election by id
+   */
+  getElection(id: string): ElectionDeployment | null {
+    return this.listElections().find(election => election.id === id) || null;
+  }
+
+  /**
+   * Add an election to the registry and persist it locally
+   */
+  addElection(election: ElectionDeployment): ElectionDeployment {
+    // Validate the addresses and salt before storing anything
+    AztecAddress.fromString(election.address);
+    AztecAddress.fromString(election.deployer);
+    AztecAddress.fromString(election.admin);
+    Fr.fromString(election.salt);
+    validateBallot(election.ballot);
+    validateVotingWindow(election.startBlock, election.endBlock);
+    if (election.voterRoot !== undefined) {
+      Fr.fromString(election.voterRoot);
+    }
+    if (election.weighted && !election.sealed) {
+      throw new Error('Weighted elections must be sealed');
+    }
+
+    if (this.getElection(election.id)) {
+      throw new Error(`Election "${election.id}" is already registered`);
+    }
+
+    this.setStoredElections([...this.getStoredElections(), election]);
+    return election;
+  }
+
+  /**
+   * Remove a locally stored election. Built-in elections cannot be removed.
+   */
+  removeElection(id: string): void {
+    if (this.defaults.some(election => election.id === id)) {
+      throw new Error(`Election "${id}" is built in and cannot be removed`);
+    }
+
+    this.setStoredElections(this.getStoredElections().filter(election => election.id !== id));
+    this.handlers.delete(id);
+  }
+
+  /**
+   * Deploy a new election contract from the connected account and store its deploy params.
+   * A different admin has to open the election from the admin console before anyone can vote.
+   * Only the allowlist root is stored; the admin distributes witnesses to voters separately.
+   */
+  async createElection({ label, admin, ballot, startBlock, endBlock, voters, sealed = false }: CreateElectionParams): Promise<ElectionDeployment> {
+    const connectedAccount = wallet.getConnectedAccount();
+    if (!connectedAccount) {
+      throw new Error('No account connected');
+    }
+
+    const voterTree = voters && voters.length > 0 ? await VoterTree.build(voters) : null;
+    const weighted = !!voters && isWeighted(voters);
+    // Public tallies would reveal each voter's weight alongside their ballot
+    if (weighted && !sealed) {
+      throw new Error('Weighted elections must be sealed');
+    }
+    // The contract stores ranked ballots whole in public storage for the instant-runoff count
+    if (sealed && getVotingMethod(ballot) === 'ranked') {
+      throw new Error('Ranked elections cannot be sealed');
+    }
+    // The admin's private running tally only has totals for these ids
+    if (sealed && ballot.candidates.some(candidate => candidate.id > MAX_SEALED_CANDIDATES)) {
+      throw new Error(`Sealed elections only support candidate ids 1 to ${MAX_SEALED_CANDIDATES}`);
+    }
+
+    const salt = Fr.random();
+    const ballotSender = await computeBallotSender(salt);
+    const deployMethod = EasyPrivateVotingContract.deploy(
+      connectedAccount,
+      AztecAddress.fromString(admin),
+      computeBallotHash(ballot),
+      startBlock,
+      endBlock,
+      voterTree ? voterTree.getRoot() : Fr.ZERO,
+      sealed,
+      ballotSender.completeAddress.address,
+    );
+    const receipt = await wallet.deployContract(deployMethod, salt);
+    // As in registerElection: the tallier's PXE only finds sealed ballots from senders it knows
+    if (sealed) {
+      await wallet.getPXE().registerSender(ballotSender.completeAddress.address);
+    }
+
+    const address = receipt.contract.address.toString();
+    const election = this.addElection({
+      id: `${slugify(label)}-${address.slice(2, 10)}`,
+      label,
+      address,
+      salt: salt.toString(),
+      deployer: connectedAccount.getAddress().toString(),
+      admin: AztecAddress.fromString(admin).toString(),
+      txHash: receipt.txHash.toString(),
+      ballot,
+      startBlock,
+      endBlock,
+      ...(voterTree ? { voterRoot: voterTree.getRoot().toString() } : {}),
+      ...(weighted ? { weighted } : {}),
+      ...(sealed ? { sealed } : {}),
+    });
+
+    // Keep the deployer's own witness so they can vote from this browser
+    const deployer = connectedAccount.getAddress().toString();
+    if (voterTree && voterTree.hasVoter(deployer)) {
+      saveVoterWitness(address, deployer, voterTree.getWitness(deployer));
+    }
+
+    // Elections start as drafts; open right away when the deployer is also the admin
+    if (AztecAddress.fromString(admin).equals(connectedAccount.getAddress())) {
+      const handler = this.getHandler(election.id);
+      await handler.initialize();
+      await handler.openVote();
+    }
+    return election;
+  }
+
+  /**
+   * Export an election's deploy params so other clients can register it
+   */
+  exportElection(id: string): string {
+    const election = this.getElection(id);
+    if (!election) {
+      throw new Error(`Unknown election "${id}"`);
+    }
+    return JSON.stringify(election, null, 2);
+  }
+
+  /**
+   * Import deploy params exported by another client and register them with PXE
+   */
+  async importElection(json: string): Promise<ElectionDeployment> {
+    const parsed = JSON.parse(json) as Partial<ElectionDeployment>;
+    const required = ['id', 'label', 'address', 'salt', 'deployer', 'admin'] as const;
+    for (const key of required) {
+      if (typeof parsed[key] !== 'string' || !parsed[key]) {
+        throw new Error(`Invalid election: missing "${key}"`);
+      }
+    }
+    // The rest reach the deploy params as they are, so a pasted string must not pass for a number
+    for (const key of ['startBlock', 'endBlock'] as const) {
+      if (!Number.isSafeInteger(parsed[key])) {
+        throw new Error(`Invalid election: "${key}" must be an integer`);
+      }
+    }
+    for (const key of ['txHash', 'voterRoot'] as const) {
+      if (parsed[key] !== undefined && typeof parsed[key] !== 'string') {
+        throw new Error(`Invalid election: "${key}" must be a string`);
+      }
+    }
+    for (const key of ['sealed', 'weighted'] as const) {
+      if (parsed[key] !== undefined && typeof parsed[key] !== 'boolean') {
+        throw new Error(`Invalid election: "${key}" must be true or false`);
+      }
+    }
+
+    const election = this.addElection({
+      ...(parsed as ElectionDeployment),
+      ballot: validateBallot(parsed.ballot),
+    });
+    await this.registerElection(election);
+    return election;
+  }
+
+  /**
+   * Add and register elections restored from an account backup. Elections already known here are skipped.
+   */
+  async restoreElections(elections: ElectionDeployment[]): Promise<ElectionDeployment[]> {
+    const restored: ElectionDeployment[] = [];
+    for (const election of elections) {
+      if (this.getElection(election.id)) {
+        continue;
+      }
+      try {
+        const added = this.addElection({ ...election, ballot: validateBallot(election.ballot) });
+        await this.registerElection(added);
+        restored.push(added);
+      } catch (error) {
+        console.error(`Failed to restore election "${election.label}":`, error);
+        // Don't throw error to prevent one bad entry from blocking the others
+        console.warn('Continuing without this election restored');
+      }
+    }
+    return restored;
+  }
+
+  /**
+   * Register an election's contract instance with PXE
+   */
+  async registerElection(election: ElectionDeployment): Promise<void> {
+    const artifact = loadContractArtifact(EasyPrivateVotingJson as any);
+    const pxe = wallet.getPXE();
+    const ballotSender = await computeBallotSender(Fr.fromString(election.salt));
+
+    const votingContractInstance = await getContractInstanceFromDeployParams(
+      artifact,
+      {
+        constructorArgs: [
+          AztecAddress.fromString(election.admin),
+          computeBallotHash(election.ballot),
+          election.startBlock,
+          election.endBlock,
+          election.voterRoot ? Fr.fromString(election.voterRoot) : Fr.ZERO,
+          election.sealed ?? false,
+          ballotSender.completeAddress.address,
+        ],
+        deployer: AztecAddress.fromString(election.deployer),
+        salt: Fr.fromString(election.salt),
+      }
+    );
+    // The address commits to the artifact and deploy params, so a mismatch means they are not what was deployed
+    if (!votingContractInstance.address.equals(AztecAddress.fromString(election.address))) {
+      throw new Error(
+        `Election "${election.label}" does not match its deploy params: computed ${votingContractInstance.address}, expected ${election.address}`
+      );
+    }
+
+    await pxe.registerContract({
+      instance: votingContractInstance,
+      artifact: artifact,
+    });
+    // Sealed ballots are tagged as sent by the ballot sender, so the tallier's PXE looks for its logs
+    if (election.sealed) {
+      await pxe.registerSender(ballotSender.completeAddress.address);
+    }
+
+    console.log(`Election "${election.label}" registered successfully`);
+  }
+
+  /**
+   * Register every known election with PXE
+   * This should be called during wallet initialization
+   */
+  async registerAll(): Promise<void> {
+    for (const election of this.listElections()) {
+      try {
+        await this.registerElection(election);
+      } catch (error) {
+        console.error(`Failed to register election "${election.label}":`, error);
+        // Don't throw error to prevent one bad entry from blocking the others
+        console.warn('Continuing without this election registered');
+      }
+    }
+  }
+
+  /**
+   * Get the contract handler for an election
+   */
+  getHandler(id: string): PrivateVotingContractHandler {
+    const election = this.getElection(id);
+    if (!election) {
+      throw new Error(`Unknown election "${id}"`);
+    }
+
+    let handler = this.handlers.get(id);
+    if (!handler) {
+      handler = new PrivateVotingContractHandler(election);
+      this.handlers.set(id, handler);
+    }
+    return handler;
+  }
+
+  /**
+   * Get elections stored in localStorage
+   */
+  private getStoredElections(): ElectionDeployment[] {
+    try {
+      if (typeof window === 'undefined') {
+        return [];
+      }
+      const elections = localStorage.getItem(ElectionsStorageKey);
+      if (!elections) {
+        return [];
+      }
+      // Elections stored before ballots and voting windows were introduced use the defaults
+      return (JSON.parse(elections) as ElectionDeployment[]).map(election => ({
+        ...election,
+        ballot: election.ballot ?? DEFAULT_BALLOT,
+        startBlock: election.startBlock ?? 0,
+        endBlock: election.endBlock ?? MAX_BLOCK_NUMBER,
+      }));
+    } catch (error) {
+      console.error('Failed to parse stored elections:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Persist elections to localStorage
+   */
+  private setStoredElections(elections: ElectionDeployment[]): void {
+    if (typeof window !== 'undefined') {
+      localStorage.setItem(ElectionsStorageKey, JSON.stringify(elections));
+    }
+  }
+}
+
+/**
+ * Check that a voting window fits the contract's u32 block numbers and is not empty
+ */
+function validateVotingWindow(startBlock: number, endBlock: number): void {
+  for (const block of [startBlock, endBlock]) {
+    if (!Number.isSafeInteger(block) || block < 0 || block > MAX_BLOCK_NUMBER) {
+      throw new Error(`Invalid voting window: ${block} is not a valid block number`);
+    }
+  }
+  if (startBlock >= endBlock) {
+    throw new Error('Invalid voting window: end block must be after start block');
+  }
+}
+
+/**
+ * Turn an election label into an id-friendly slug
+ */
+function slugify(label: string): string {
+  return label
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '') || 'election';
+}
+
+// Export a singleton instance
+export const electionRegistry = new ElectionRegistry();
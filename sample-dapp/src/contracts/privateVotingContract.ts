@@ -1,58 +1,142 @@
-import { AztecAddress, Contract, Fr, getContractInstanceFromDeployParams, loadContractArtifact } from '@aztec/aztec.js';
-import { PRIVATE_VOTING_CONTRACT_ADDRESS, PRIVATE_VOTING_PARAMS } from '../constants';
-import EasyPrivateVotingJson from './artifacts/private_voting-EasyPrivateVoting.json';
+import { AztecAddress, Fr, type ContractFunctionInteraction, type TxReceipt } from '@aztec/aztec.js';
+import { deriveStorageSlotInMap, siloNullifier } from '@aztec/stdlib/hash';
+import { EasyPrivateVotingContract } from './artifacts/EasyPrivateVoting';
+import { MAX_ADMINS, MAX_CO_ADMINS, encodeCoAdmins } from './adminRoles';
+import { encodeApprovals } from './approvalVoting';
+import { computeBallotHash, getVotingMethod, isOnBallot } from './ballot';
+import { computeBallotSender } from './ballotSender';
+import {
+  decodeAddress,
+  decodeArray,
+  decodeBigInt,
+  decodeBoolean,
+  decodeField,
+  decodeNumber,
+  decodeTuple,
+  type Decoder,
+} from './decoders';
+import type { ElectionDeployment } from './electionRegistry';
+import {
+  MAX_RANKINGS,
+  decodeRankings,
+  encodeRankings,
+  tabulateInstantRunoff,
+  type InstantRunoffResult,
+  type RankedBallot,
+} from './rankedChoice';
+import {
+  VOTER_TREE_DEPTH,
+  computeWitnessRoot,
+  parseVoterWitness,
+  type VoterWitness,
+  type VoterWitnessFile,
+} from './voterAllowlist';
+import { loadVoterWitness, saveVoterWitness } from './voterWitnesses';
 import { wallet } from '../wallet-browser';
 
+export type VotingStatus = 'pending' | 'open' | 'closed';
 
-export class PrivateVotingContractHandler {
-  private contract: Contract | null = null;
-  private contractAddress: AztecAddress;
+// Must match MAX_BALLOTS_PER_REVEAL in src/sealed_ballot_note.nr
+const MAX_BALLOTS_PER_REVEAL = 10;
+
+// Must match the ELECTION_* states in src/lifecycle.nr
+export enum ElectionState {
+  Draft = 0,
+  Open = 1,
+  Closed = 2,
+  Finalized = 3,
+}
 
-  constructor(contractAddress: string = PRIVATE_VOTING_CONTRACT_ADDRESS) {
-    this.contractAddress = AztecAddress.fromString(contractAddress);
+/**
+ * Decode an ELECTION_* state, throwing on a value the enum does not know
+ */
+const decodeElectionState: Decoder<ElectionState> = value => {
+  const state = decodeNumber(value);
+  if (ElectionState[state] === undefined) {
+    throw new Error(`Unknown election state ${state}`);
   }
+  return state as ElectionState;
+};
 
-  /**
-   * Register the contract artifact with PXE
-   * This should be called during wallet initialization
-   */
-  static async registerArtifact(): Promise<void> {
-    try {
-      const artifact = loadContractArtifact(EasyPrivateVotingJson as any);
-      const pxe = wallet.getPXE();
-      
-      const votingContractInstance = await getContractInstanceFromDeployParams(
-        artifact,
-        {
-          constructorArgs: [AztecAddress.fromString(PRIVATE_VOTING_PARAMS.deployer)],
-          deployer: AztecAddress.fromString(PRIVATE_VOTING_PARAMS.deployer),
-          salt: Fr.fromString(PRIVATE_VOTING_PARAMS.salt),
-        }
-      );
-      votingContractInstance.address = AztecAddress.fromString(PRIVATE_VOTING_CONTRACT_ADDRESS);
-      
-      await pxe.registerContract({
-        instance: votingContractInstance,
-        artifact: artifact,
-      });
-      
-      console.log('Private voting contract artifact registered successfully');
-    } catch (error) {
-      console.error('Failed to register private voting contract artifact:', error);
-      // Don't throw error to prevent wallet initialization from failing
-      console.warn('Continuing without private voting contract registration');
-    }
+export interface VotingWindow {
+  startBlock: bigint;
+  endBlock: bigint;
+}
+
+export interface VoteReceipt {
+  election: string;
+  round: bigint;
+  weight: bigint;
+  // Candidate ids as submitted: one for plurality, the ranking or the approved set otherwise
+  choices: number[];
+}
+
+// Sealed elections hide tallies until the vote has ended and every ballot is revealed
+export type VoteCount = { status: 'counted'; votes: bigint } | { status: 'sealed' };
+
+export interface TallySnapshot {
+  // Block the tallies were read at
+  blockNumber: number;
+  round: bigint;
+  state: ElectionState;
+  votingWindow: VotingWindow;
+  // Weight counted for each candidate, keyed by candidate id; null while the tally is sealed
+  tallies: Record<number, bigint> | null;
+  // Instant-runoff count of the round's ranked ballots; null unless the election is ranked
+  runoff: InstantRunoffResult | null;
+}
+
+export interface SealedBallotCounts {
+  sealed: bigint;
+  revealed: bigint;
+}
+
+export interface ElectionAdmins {
+  admin: AztecAddress;
+  // Co-admins in slot order, without the unused zero slots
+  coAdmins: AztecAddress[];
+  // Admins who must call end_vote before the vote ends
+  endVoteThreshold: bigint;
+  // Account a transfer is waiting on, if any
+  pendingAdmin: AztecAddress | null;
+  // Admins who have already called end_vote this round
+  endVoteApprovals: AztecAddress[];
+}
+
+/**
+ * Derive the voting status from the window, the lifecycle state and a block number
+ */
+export function computeVotingStatus(window: VotingWindow, state: ElectionState, blockNumber: number): VotingStatus {
+  if (state >= ElectionState.Closed || BigInt(blockNumber) > window.endBlock) {
+    return 'closed';
+  }
+  if (state === ElectionState.Draft || BigInt(blockNumber) < window.startBlock) {
+    return 'pending';
+  }
+  return 'open';
+}
+
+export class PrivateVotingContractHandler {
+  private contract: EasyPrivateVotingContract | null = null;
+  private contractAddress: AztecAddress;
+  private election: ElectionDeployment;
+  // Tallies only change between blocks, so one read per block and candidate list is enough
+  private tallyCache: { key: string; snapshot: Promise<TallySnapshot> } | null = null;
+
+  constructor(election: ElectionDeployment) {
+    this.election = election;
+    this.contractAddress = AztecAddress.fromString(election.address);
   }
 
   /**
-   * Check if the contract artifact is registered
+   * Check if the election's contract is registered with PXE
    */
-  static async isArtifactRegistered(): Promise<boolean> {
+  async isRegistered(): Promise<boolean> {
     try {
       const pxe = wallet.getPXE();
-      // Try to get contracts - if it fails, artifact is not registered
+      // Try to get contracts - if it fails, the contract is not registered
       const contracts = await pxe.getContracts();
-      return contracts.some(contract => contract.toString() === PRIVATE_VOTING_CONTRACT_ADDRESS);
+      return contracts.some(contract => contract.equals(this.contractAddress));
     } catch (error) {
       return false;
     }
@@ -68,8 +152,7 @@ export class PrivateVotingContractHandler {
         throw new Error('No account connected');
       }
       
-      const artifact = loadContractArtifact(EasyPrivateVotingJson as any);
-      this.contract = await Contract.at(this.contractAddress, artifact, connectedAccount);
+      this.contract = await EasyPrivateVotingContract.at(this.contractAddress, connectedAccount);
       
       console.log('Private voting contract initialized successfully');
     } catch (error) {
@@ -79,16 +162,57 @@ export class PrivateVotingContractHandler {
   }
 
   /**
-   * Cast a vote for a candidate
+   * Cast a vote for a candidate, or for a set of candidates in approval elections.
+   * The weight is read from the voter's imported witness unless given explicitly.
    */
-  async castVote(candidateId: number): Promise<any> {
+  async castVote(candidates: number | number[], weight?: bigint): Promise<TxReceipt> {
     if (!this.contract) {
       throw new Error('Contract not initialized. Call initialize() first.');
     }
 
+    const votingMethod = getVotingMethod(this.election.ballot);
+    if (votingMethod === 'ranked') {
+      throw new Error('This election uses ranked ballots. Call castRankedVote() instead.');
+    }
+
+    const candidateIds = Array.isArray(candidates) ? candidates : [candidates];
+    if (votingMethod === 'plurality' && candidateIds.length !== 1) {
+      throw new Error('Plurality elections accept exactly one candidate');
+    }
+
+    const offBallot = candidateIds.filter(candidateId => !isOnBallot(this.election.ballot, candidateId));
+    if (offBallot.length > 0) {
+      throw new Error(`Candidate ${offBallot[0]} is not on the ballot`);
+    }
+
     try {
-      const candidateField = new Fr(candidateId);
-      const interaction = this.contract.methods.cast_vote(candidateField);
+      const round = await this.getRound();
+      const witness = await this.getVoterWitness();
+      if (weight !== undefined && weight !== witness.weight) {
+        throw new Error(`Weight ${weight} does not match the witness weight ${witness.weight}`);
+      }
+      // Sealed ballots are encrypted to the admin; the contract rejects them if the admin has changed
+      const tallier = this.election.sealed ? await this.getAdmin() : AztecAddress.ZERO;
+      if (this.election.sealed) {
+        await this.registerBallotSender();
+      }
+      const interaction = votingMethod === 'approval'
+        ? this.contract.methods.cast_approval_vote(
+            encodeApprovals(candidateIds).map(candidateId => new Fr(candidateId)),
+            round,
+            tallier,
+            new Fr(witness.weight),
+            witness.index,
+            witness.path,
+          )
+        : this.contract.methods.cast_vote(
+            new Fr(candidateIds[0]),
+            round,
+            tallier,
+            new Fr(witness.weight),
+            witness.index,
+            witness.path,
+          );
       
       // Send the transaction using the wallet
       const receipt = await wallet.sendTransaction(interaction);
@@ -100,29 +224,399 @@ export class PrivateVotingContractHandler {
   }
 
   /**
-   * Get vote count for a candidate
+   * Cast a ranked ballot listing candidate ids in order of preference
+   */
+  async castRankedVote(rankings: number[]): Promise<TxReceipt> {
+    if (!this.contract) {
+      throw new Error('Contract not initialized. Call initialize() first.');
+    }
+
+    if (getVotingMethod(this.election.ballot) !== 'ranked') {
+      throw new Error('This election does not use ranked ballots');
+    }
+
+    const offBallot = rankings.filter(candidateId => !isOnBallot(this.election.ballot, candidateId));
+    if (offBallot.length > 0) {
+      throw new Error(`Candidate ${offBallot[0]} is not on the ballot`);
+    }
+
+    try {
+      const rankingFields = encodeRankings(rankings).map(candidateId => new Fr(candidateId));
+      const round = await this.getRound();
+      const witness = await this.getVoterWitness();
+      const interaction = this.contract.methods.cast_ranked_vote(
+        rankingFields,
+        round,
+        new Fr(witness.weight),
+        witness.index,
+        witness.path,
+      );
+
+      // Send the transaction using the wallet
+      const receipt = await wallet.sendTransaction(interaction);
+      return receipt;
+    } catch (error) {
+      console.error('Failed to cast ranked vote:', error);
+      throw new Error(`Failed to cast ranked vote: ${error}`);
+    }
+  }
+
+  /**
+   * Replace the connected account's vote in the current round with a new candidate.
+   * The earlier ballot is taken out of the tally without linking this transaction to it.
    */
-  async getVote(candidateId: number): Promise<bigint> {
+  async changeVote(newCandidate: number): Promise<TxReceipt> {
     if (!this.contract) {
       throw new Error('Contract not initialized. Call initialize() first.');
     }
 
+    if (getVotingMethod(this.election.ballot) !== 'plurality') {
+      throw new Error('Only plurality votes can be changed');
+    }
+
+    if (!isOnBallot(this.election.ballot, newCandidate)) {
+      throw new Error(`Candidate ${newCandidate} is not on the ballot`);
+    }
+
     try {
+      const round = await this.getRound();
+      const interaction = this.contract.methods.change_vote(new Fr(newCandidate), round);
+
+      // Send the transaction using the wallet
+      const receipt = await wallet.sendTransaction(interaction);
+      return receipt;
+    } catch (error) {
+      console.error('Failed to change vote:', error);
+      throw new Error(`Failed to change vote: ${error}`);
+    }
+  }
+
+  /**
+   * Get every ranked ballot cast in the current round from the contract's public storage.
+   * Only the node is needed, so this works for visitors without a PXE or account.
+   */
+  async getRankedBallots(): Promise<RankedBallot[]> {
+    try {
+      return await this.readRankedBallots(await wallet.getBlockNumber());
+    } catch (error) {
+      console.error('Failed to get ranked ballots:', error);
+      throw new Error(`Failed to get ranked ballots: ${error}`);
+    }
+  }
+
+  /**
+   * Run the instant-runoff count over the ranked ballots cast in the current round
+   */
+  async getInstantRunoffResult(): Promise<InstantRunoffResult> {
+    const ballots = await this.getRankedBallots();
+    return tabulateInstantRunoff(
+      ballots,
+      this.election.ballot.candidates.map(candidate => candidate.id)
+    );
+  }
+
+  /**
+   * Get vote count for a candidate in the current round, or a sealed status while the tally is hidden
+   */
+  async getVote(candidateId: number): Promise<VoteCount> {
+    if (!this.contract) {
+      throw new Error('Contract not initialized. Call initialize() first.');
+    }
+
+    try {
+      // Simulate the transaction to get the result
+      const tallySealed = await this.simulate(this.contract.methods.is_tally_sealed(), decodeBoolean);
+      if (tallySealed) {
+        return { status: 'sealed' };
+      }
+
       const candidateField = new Fr(candidateId);
       const interaction = this.contract.methods.get_vote(candidateField);
+      const votes = await this.simulate(interaction, decodeBigInt);
       
-      // Simulate the transaction to get the result
-      const result = await wallet.simulateTransaction(interaction);
-      
-      // Extract the vote count from the result
-      // The exact structure depends on the contract's return format
-      return result || BigInt(0);
+      return { status: 'counted', votes };
     } catch (error) {
       console.error('Failed to get vote:', error);
       throw new Error(`Failed to get vote: ${error}`);
     }
   }
 
+  /**
+   * Get every candidate's tally in the current round from the contract's public storage.
+   * All slots are read at the same block, and the result is cached until the next block.
+   * Only the node is needed, so this works for visitors without a PXE or account.
+   */
+  async getAllTallies(candidateIds: number[]): Promise<TallySnapshot> {
+    try {
+      const blockNumber = await wallet.getBlockNumber();
+      const key = `${blockNumber}:${candidateIds.join(',')}`;
+      if (!this.tallyCache || this.tallyCache.key !== key) {
+        this.tallyCache = { key, snapshot: this.readTallies(candidateIds, blockNumber) };
+      }
+      return await this.tallyCache.snapshot;
+    } catch (error) {
+      this.tallyCache = null;
+      console.error('Failed to get tallies:', error);
+      throw new Error(`Failed to get tallies: ${error}`);
+    }
+  }
+
+  /**
+   * Get the current voting round. Votes and nullifiers are scoped to it.
+   */
+  async getRound(): Promise<bigint> {
+    if (!this.contract) {
+      throw new Error('Contract not initialized. Call initialize() first.');
+    }
+
+    try {
+      const interaction = this.contract.methods.get_round();
+      
+      // Simulate the transaction to get the result
+      return await this.simulate(interaction, decodeBigInt);
+    } catch (error) {
+      console.error('Failed to get round:', error);
+      throw new Error(`Failed to get round: ${error}`);
+    }
+  }
+
+  /**
+   * Check whether the connected account has already voted in the current round.
+   * The PXE derives the vote nullifier from the account's keys, so no transaction is proven.
+   */
+  async hasVoted(): Promise<boolean> {
+    if (!this.contract) {
+      throw new Error('Contract not initialized. Call initialize() first.');
+    }
+
+    const connectedAccount = wallet.getConnectedAccount();
+    if (!connectedAccount) {
+      throw new Error('No account connected');
+    }
+
+    try {
+      const round = await this.getRound();
+      const interaction = this.contract.methods.get_vote_nullifier(connectedAccount.getAddress(), round);
+      
+      // Simulate the transaction to get the result
+      const nullifier = await this.simulate(interaction, decodeField);
+      
+      // The contract pushes the nullifier from a private function, so the tree holds its siloed form
+      return await wallet.nullifierExists(await siloNullifier(this.contractAddress, nullifier));
+    } catch (error) {
+      console.error('Failed to check whether account has voted:', error);
+      throw new Error(`Failed to check whether account has voted: ${error}`);
+    }
+  }
+
+  /**
+   * Read the connected account's private receipt for its vote in the current round,
+   * or null if it has not voted. The receipt note is encrypted to the voter, so only their PXE can read it.
+   */
+  async getMyVoteReceipt(): Promise<VoteReceipt | null> {
+    if (!this.contract) {
+      throw new Error('Contract not initialized. Call initialize() first.');
+    }
+
+    const connectedAccount = wallet.getConnectedAccount();
+    if (!connectedAccount) {
+      throw new Error('No account connected');
+    }
+
+    try {
+      // Make sure the PXE has processed any receipt notes delivered since the last sync
+      await wallet.simulateTransaction(this.contract.methods.sync_private_state());
+
+      const round = await this.getRound();
+      const notes = await wallet.getPXE().getNotes({
+        contractAddress: this.contractAddress,
+        storageSlot: await deriveStorageSlotInMap(
+          EasyPrivateVotingContract.storage.vote_receipts.slot,
+          connectedAccount.getAddress()
+        ),
+      });
+
+      // Packed as owner, election, round, kind, weight, choices, randomness
+      const receipts = notes.map(({ note }) => ({
+        election: AztecAddress.fromField(note.items[1]).toString(),
+        round: note.items[2].toBigInt(),
+        weight: note.items[4].toBigInt(),
+        choices: note.items
+          .slice(5, note.items.length - 1)
+          .map(choice => Number(choice.toBigInt()))
+          .filter(choice => choice !== 0),
+      }));
+      return receipts.find(receipt => receipt.round === round) ?? null;
+    } catch (error) {
+      console.error('Failed to get vote receipt:', error);
+      throw new Error(`Failed to get vote receipt: ${error}`);
+    }
+  }
+
+  /**
+   * Start a new voting round with empty tallies and its own voting window (admin only, once the
+   * current round is finalized). Every voter may vote again in the new round; earlier rounds'
+   * tallies stay readable.
+   */
+  async startNewRound(startBlock: number, endBlock: number): Promise<TxReceipt> {
+    if (!this.contract) {
+      throw new Error('Contract not initialized. Call initialize() first.');
+    }
+
+    if (startBlock >= endBlock) {
+      throw new Error('Voting window must end after it starts');
+    }
+
+    try {
+      const interaction = this.contract.methods.start_new_round(startBlock, endBlock);
+      
+      // Send the transaction using the wallet
+      const receipt = await wallet.sendTransaction(interaction);
+      return receipt;
+    } catch (error) {
+      console.error('Failed to start new round:', error);
+      throw new Error(`Failed to start new round: ${error}`);
+    }
+  }
+
+  /**
+   * Check whether the election seals its tally until the vote ends
+   */
+  async isSealed(): Promise<boolean> {
+    if (!this.contract) {
+      throw new Error('Contract not initialized. Call initialize() first.');
+    }
+
+    try {
+      const interaction = this.contract.methods.get_sealed();
+      
+      // Simulate the transaction to get the result
+      return await this.simulate(interaction, decodeBoolean);
+    } catch (error) {
+      console.error('Failed to get sealed status:', error);
+      throw new Error(`Failed to get sealed status: ${error}`);
+    }
+  }
+
+  /**
+   * Get how many ballots were sealed in the current round and how many the published tally counts
+   */
+  async getSealedBallotCounts(): Promise<SealedBallotCounts> {
+    if (!this.contract) {
+      throw new Error('Contract not initialized. Call initialize() first.');
+    }
+
+    try {
+      const round = await this.getRound();
+      const interaction = this.contract.methods.get_sealed_ballot_counts(round);
+      
+      // Simulate the transaction to get the result
+      const [sealed, revealed] = await this.simulate(
+        interaction,
+        decodeTuple<[bigint, bigint]>(decodeBigInt, decodeBigInt)
+      );
+      
+      return { sealed, revealed };
+    } catch (error) {
+      console.error('Failed to get sealed ballot counts:', error);
+      throw new Error(`Failed to get sealed ballot counts: ${error}`);
+    }
+  }
+
+  /**
+   * Reveal every sealed ballot of the current round and publish the totals (admin only).
+   * Each transaction adds one batch to the admin's private running tally; only the final totals
+   * reach the public tally, so no single ballot's weight is published.
+   */
+  async revealSealedBallots(): Promise<SealedBallotCounts> {
+    if (!this.contract) {
+      throw new Error('Contract not initialized. Call initialize() first.');
+    }
+
+    try {
+      const round = await this.getRound();
+      const counts = await this.getSealedBallotCounts();
+      if (counts.revealed === counts.sealed) {
+        return counts;
+      }
+
+      // Batches already in the running tally from an earlier attempt just make some reveals empty
+      const batches = Math.ceil(Number(counts.sealed) / MAX_BALLOTS_PER_REVEAL);
+      for (let batch = 0; batch < batches; batch++) {
+        await wallet.sendTransaction(this.contract.methods.reveal_sealed_ballots(round));
+      }
+      await wallet.sendTransaction(this.contract.methods.publish_sealed_tally(round));
+
+      const published = await this.getSealedBallotCounts();
+      if (published.revealed < published.sealed) {
+        throw new Error('Not every sealed ballot was found; make sure this account is the admin and its notes are synced');
+      }
+      return published;
+    } catch (error) {
+      console.error('Failed to reveal sealed ballots:', error);
+      throw new Error(`Failed to reveal sealed ballots: ${error}`);
+    }
+  }
+
+  /**
+   * Get the election's lifecycle state
+   */
+  async getElectionState(): Promise<ElectionState> {
+    if (!this.contract) {
+      throw new Error('Contract not initialized. Call initialize() first.');
+    }
+
+    try {
+      const interaction = this.contract.methods.get_election_state();
+      
+      // Simulate the transaction to get the result
+      return await this.simulate(interaction, decodeElectionState);
+    } catch (error) {
+      console.error('Failed to get election state:', error);
+      throw new Error(`Failed to get election state: ${error}`);
+    }
+  }
+
+  /**
+   * Open a draft election for voting (admin only)
+   */
+  async openVote(): Promise<TxReceipt> {
+    if (!this.contract) {
+      throw new Error('Contract not initialized. Call initialize() first.');
+    }
+
+    try {
+      const interaction = this.contract.methods.open_vote();
+      
+      // Send the transaction using the wallet
+      const receipt = await wallet.sendTransaction(interaction);
+      return receipt;
+    } catch (error) {
+      console.error('Failed to open vote:', error);
+      throw new Error(`Failed to open vote: ${error}`);
+    }
+  }
+
+  /**
+   * Finalize a closed election's results (admin only). Sealed ballots must be revealed first.
+   */
+  async finalizeVote(): Promise<TxReceipt> {
+    if (!this.contract) {
+      throw new Error('Contract not initialized. Call initialize() first.');
+    }
+
+    try {
+      const interaction = this.contract.methods.finalize_vote();
+      
+      // Send the transaction using the wallet
+      const receipt = await wallet.sendTransaction(interaction);
+      return receipt;
+    } catch (error) {
+      console.error('Failed to finalize vote:', error);
+      throw new Error(`Failed to finalize vote: ${error}`);
+    }
+  }
+
   /**
    * Get voting end status
    */
@@ -135,10 +629,7 @@ export class PrivateVotingContractHandler {
       const interaction = this.contract.methods.get_vote_ended();
       
       // Simulate the transaction to get the result
-      const result = await wallet.simulateTransaction(interaction);
-      
-      // Extract the boolean value from the result
-      return result.value || false;
+      return await this.simulate(interaction, decodeBoolean);
     } catch (error) {
       console.error('Failed to get vote ended status:', error);
       throw new Error(`Failed to get vote ended status: ${error}`);
@@ -157,16 +648,115 @@ export class PrivateVotingContractHandler {
       const interaction = this.contract.methods.get_admin();
       
       // Simulate the transaction to get the result
-      const result = await wallet.simulateTransaction(interaction);
-      
-      // Extract the admin address from the result
-      return result.value || AztecAddress.ZERO;
+      return await this.simulate(interaction, decodeAddress);
     } catch (error) {
       console.error('Failed to get admin:', error);
       throw new Error(`Failed to get admin: ${error}`);
     }
   }
 
+  /**
+   * Get the admin, co-admins, end vote threshold and any pending admin transfer
+   */
+  async getAdmins(): Promise<ElectionAdmins> {
+    if (!this.contract) {
+      throw new Error('Contract not initialized. Call initialize() first.');
+    }
+
+    try {
+      // Simulate the transactions to get the results
+      const [[admin, coAdmins, endVoteThreshold], pending, approvals] = await Promise.all([
+        this.simulate(
+          this.contract.methods.get_admins(),
+          decodeTuple<[AztecAddress, AztecAddress[], bigint]>(
+            decodeAddress,
+            decodeArray(decodeAddress, MAX_CO_ADMINS),
+            decodeBigInt
+          )
+        ),
+        this.simulate(this.contract.methods.get_pending_admin(), decodeAddress),
+        this.simulate(this.contract.methods.get_end_vote_approvals(), decodeArray(decodeBoolean, MAX_ADMINS)),
+      ]);
+
+      // Approvals are indexed like the contract's admin_index: the admin, then each co-admin slot
+      const adminSlots = [admin, ...coAdmins];
+      return {
+        admin,
+        coAdmins: coAdmins.filter(address => !address.isZero()),
+        endVoteThreshold,
+        pendingAdmin: pending.isZero() ? null : pending,
+        endVoteApprovals: adminSlots.filter((address, index) => approvals[index] && !address.isZero()),
+      };
+    } catch (error) {
+      console.error('Failed to get admins:', error);
+      throw new Error(`Failed to get admins: ${error}`);
+    }
+  }
+
+  /**
+   * Propose a new admin (admin only). The transfer completes when the new admin calls acceptAdmin.
+   */
+  async transferAdmin(newAdmin: string): Promise<TxReceipt> {
+    if (!this.contract) {
+      throw new Error('Contract not initialized. Call initialize() first.');
+    }
+
+    try {
+      const interaction = this.contract.methods.transfer_admin(AztecAddress.fromString(newAdmin));
+      
+      // Send the transaction using the wallet
+      const receipt = await wallet.sendTransaction(interaction);
+      return receipt;
+    } catch (error) {
+      console.error('Failed to transfer admin:', error);
+      throw new Error(`Failed to transfer admin: ${error}`);
+    }
+  }
+
+  /**
+   * Accept a pending admin transfer to the connected account
+   */
+  async acceptAdmin(): Promise<TxReceipt> {
+    if (!this.contract) {
+      throw new Error('Contract not initialized. Call initialize() first.');
+    }
+
+    try {
+      const interaction = this.contract.methods.accept_admin();
+      
+      // Send the transaction using the wallet
+      const receipt = await wallet.sendTransaction(interaction);
+      return receipt;
+    } catch (error) {
+      console.error('Failed to accept admin:', error);
+      throw new Error(`Failed to accept admin: ${error}`);
+    }
+  }
+
+  /**
+   * Replace the co-admins and the number of admins needed to end the vote (admin only)
+   */
+  async setCoAdmins(coAdmins: string[], endVoteThreshold: number): Promise<TxReceipt> {
+    if (!this.contract) {
+      throw new Error('Contract not initialized. Call initialize() first.');
+    }
+
+    try {
+      const { admin } = await this.getAdmins();
+      const interaction = this.contract.methods.set_co_admins(
+        encodeCoAdmins(admin.toString(), coAdmins, endVoteThreshold),
+        endVoteThreshold
+      );
+      
+      // Send the transaction using the wallet
+      const receipt = await wallet.sendTransaction(interaction);
+      return receipt;
+    } catch (error) {
+      console.error('Failed to set co-admins:', error);
+      throw new Error(`Failed to set co-admins: ${error}`);
+    }
+  }
+
   /**
    * Get active at block
    */
@@ -179,10 +769,7 @@ export class PrivateVotingContractHandler {
       const interaction = this.contract.methods.get_active_at_block();
       
       // Simulate the transaction to get the result
-      const result = await wallet.simulateTransaction(interaction);
-      
-      // Extract the block number from the result
-      return result.value || BigInt(0);
+      return await this.simulate(interaction, decodeBigInt);
     } catch (error) {
       console.error('Failed to get active at block:', error);
       throw new Error(`Failed to get active at block: ${error}`);
@@ -190,9 +777,184 @@ export class PrivateVotingContractHandler {
   }
 
   /**
-   * End the voting (admin only)
+   * Get the block range in which votes are accepted
+   */
+  async getVotingWindow(): Promise<VotingWindow> {
+    if (!this.contract) {
+      throw new Error('Contract not initialized. Call initialize() first.');
+    }
+
+    try {
+      const interaction = this.contract.methods.get_voting_window();
+      
+      // Simulate the transaction to get the result
+      const [startBlock, endBlock] = await this.simulate(
+        interaction,
+        decodeTuple<[bigint, bigint]>(decodeBigInt, decodeBigInt)
+      );
+      
+      return { startBlock, endBlock };
+    } catch (error) {
+      console.error('Failed to get voting window:', error);
+      throw new Error(`Failed to get voting window: ${error}`);
+    }
+  }
+
+  /**
+   * Get whether voting is pending, open or closed at the given block
+   */
+  async getVotingStatus(blockNumber?: number): Promise<VotingStatus> {
+    const [window, state, currentBlock] = await Promise.all([
+      this.getVotingWindow(),
+      this.getElectionState(),
+      blockNumber !== undefined ? Promise.resolve(blockNumber) : wallet.getBlockNumber(),
+    ]);
+
+    return computeVotingStatus(window, state, currentBlock);
+  }
+
+  /**
+   * Check whether votes in this election are weighted by the admin's voter snapshot
+   */
+  isWeighted(): boolean {
+    return !!this.election.weighted;
+  }
+
+  /**
+   * Check whether only accounts on a voter allowlist may vote
+   */
+  hasVoterAllowlist(): boolean {
+    return !!this.election.voterRoot;
+  }
+
+  /**
+   * Get the vote weight of an address, or null if no witness for it has been imported in this browser
+   */
+  async getVoterWeight(voter: string): Promise<bigint | null> {
+    if (!this.election.voterRoot) {
+      return BigInt(1);
+    }
+    const witness = loadVoterWitness(this.election.address, voter);
+    return witness ? witness.weight : null;
+  }
+
+  /**
+   * Check whether an address can vote from this browser
    */
-  async endVote(): Promise<any> {
+  async isEligible(voter: string): Promise<boolean> {
+    return (await this.getVoterWeight(voter)) !== null;
+  }
+
+  /**
+   * Import the connected account's witness from a file the admin handed out and keep it in this browser.
+   * The witness must prove to the election's allowlist root.
+   */
+  async importVoterWitness(json: string): Promise<VoterWitness> {
+    const connectedAccount = wallet.getConnectedAccount();
+    if (!connectedAccount) {
+      throw new Error('No account connected');
+    }
+    if (!this.election.voterRoot) {
+      throw new Error('This election is open to every account and needs no witness');
+    }
+
+    try {
+      const voterRoot = Fr.fromString(this.election.voterRoot);
+      const file = JSON.parse(json) as VoterWitnessFile;
+      if (!file || typeof file.witnesses !== 'object' || !Fr.fromString(file.voterRoot).equals(voterRoot)) {
+        throw new Error('Witness file is for a different voter list');
+      }
+
+      const voter = connectedAccount.getAddress();
+      const exported = Object.keys(file.witnesses)
+        .filter(address => AztecAddress.fromString(address).equals(voter))
+        .map(address => file.witnesses[address])[0];
+      if (!exported) {
+        throw new Error(`${voter} is not in the witness file`);
+      }
+
+      const witness = parseVoterWitness(exported);
+      if (!(await computeWitnessRoot(voter, witness)).equals(voterRoot)) {
+        throw new Error('Witness does not prove to the voter root of this election');
+      }
+      saveVoterWitness(this.election.address, voter.toString(), witness);
+      return witness;
+    } catch (error) {
+      console.error('Failed to import voter witness:', error);
+      throw new Error(`Failed to import voter witness: ${error}`);
+    }
+  }
+
+  /**
+   * Get the voter allowlist root currently published on-chain
+   */
+  async getVoterRoot(): Promise<Fr> {
+    if (!this.contract) {
+      throw new Error('Contract not initialized. Call initialize() first.');
+    }
+
+    try {
+      const interaction = this.contract.methods.get_voter_root();
+      
+      // Simulate the transaction to get the result
+      return await this.simulate(interaction, decodeField);
+    } catch (error) {
+      console.error('Failed to get voter root:', error);
+      throw new Error(`Failed to get voter root: ${error}`);
+    }
+  }
+
+  /**
+   * Publish a new voter allowlist root (admin only)
+   */
+  async setVoterRoot(voterRoot: Fr): Promise<TxReceipt> {
+    if (!this.contract) {
+      throw new Error('Contract not initialized. Call initialize() first.');
+    }
+
+    try {
+      const interaction = this.contract.methods.set_voter_root(voterRoot);
+      
+      // Send the transaction using the wallet
+      const receipt = await wallet.sendTransaction(interaction);
+      return receipt;
+    } catch (error) {
+      console.error('Failed to set voter root:', error);
+      throw new Error(`Failed to set voter root: ${error}`);
+    }
+  }
+
+  /**
+   * Get the ballot hash committed at construction
+   */
+  async getBallotHash(): Promise<Fr> {
+    if (!this.contract) {
+      throw new Error('Contract not initialized. Call initialize() first.');
+    }
+
+    try {
+      const interaction = this.contract.methods.get_ballot_hash();
+      
+      // Simulate the transaction to get the result
+      return await this.simulate(interaction, decodeField);
+    } catch (error) {
+      console.error('Failed to get ballot hash:', error);
+      throw new Error(`Failed to get ballot hash: ${error}`);
+    }
+  }
+
+  /**
+   * Check that the election's ballot definition matches the on-chain hash
+   */
+  async verifyBallot(): Promise<boolean> {
+    const onChainHash = await this.getBallotHash();
+    return onChainHash.equals(computeBallotHash(this.election.ballot));
+  }
+
+  /**
+   * Approve ending the vote (admin or co-admin). The vote ends once the threshold of admins has approved.
+   */
+  async endVote(): Promise<TxReceipt> {
     if (!this.contract) {
       throw new Error('Contract not initialized. Call initialize() first.');
     }
@@ -209,10 +971,122 @@ export class PrivateVotingContractHandler {
     }
   }
 
+  /**
+   * Simulate a utility call and decode its return value, so an unexpected shape fails loudly
+   */
+  private async simulate<T>(interaction: ContractFunctionInteraction, decode: Decoder<T>): Promise<T> {
+    return decode(await wallet.simulateTransaction(interaction));
+  }
+
+  /**
+   * Read one public storage slot of this election from the node at the given block
+   */
+  private async readPublicValue(slot: Fr, blockNumber: number): Promise<bigint> {
+    return (await wallet.readPublicStorage(this.contractAddress, slot, blockNumber)).toBigInt();
+  }
+
+  /**
+   * Read the current round's ranked ballots at one block, mirroring get_ranked_ballot_count,
+   * get_ranked_round_start and get_ranked_ballot, so the count and the ballots agree
+   */
+  private async readRankedBallots(blockNumber: number): Promise<RankedBallot[]> {
+    const { storage } = EasyPrivateVotingContract;
+    const [count, roundStart] = await Promise.all([
+      this.readPublicValue(storage.ranked_ballot_count.slot, blockNumber),
+      this.readPublicValue(storage.ranked_round_start.slot, blockNumber),
+    ]);
+
+    const ballots: RankedBallot[] = [];
+    for (let index = Number(roundStart); index < Number(count); index++) {
+      // The rankings array takes MAX_RANKINGS consecutive slots from the ballot's map slot
+      const ballotSlot = await deriveStorageSlotInMap(storage.ranked_ballots.slot, { toField: () => new Fr(index) });
+      const rankings = await Promise.all(
+        Array.from({ length: MAX_RANKINGS }, (_, offset) =>
+          this.readPublicValue(ballotSlot.add(new Fr(offset)), blockNumber)
+        )
+      );
+      // Ranked ballots are tallied in public, so they always weigh 1
+      ballots.push({ rankings: decodeRankings(rankings), weight: BigInt(1) });
+    }
+    return ballots;
+  }
+
+  /**
+   * Read the tally slots for the given candidates, mirroring get_vote and is_tally_sealed,
+   * and the instant-runoff count for ranked elections
+   */
+  private async readTallies(candidateIds: number[], blockNumber: number): Promise<TallySnapshot> {
+    const { storage } = EasyPrivateVotingContract;
+    const read = (slot: Fr) => this.readPublicValue(slot, blockNumber);
+
+    const [round, stateValue, sealed, startBlock, endBlock] = await Promise.all([
+      read(storage.round.slot),
+      read(storage.state.slot),
+      read(storage.sealed.slot),
+      read(storage.start_block.slot),
+      read(storage.end_block.slot),
+    ]);
+    const roundKey = { toField: () => new Fr(round) };
+    const state = decodeElectionState(stateValue);
+    const votingWindow = { startBlock, endBlock };
+    const runoff = getVotingMethod(this.election.ballot) === 'ranked'
+      ? tabulateInstantRunoff(await this.readRankedBallots(blockNumber), candidateIds)
+      : null;
+
+    if (sealed !== BigInt(0)) {
+      const [sealedCount, revealedCount] = await Promise.all([
+        read(await deriveStorageSlotInMap(storage.sealed_ballot_count.slot, roundKey)),
+        read(await deriveStorageSlotInMap(storage.revealed_ballot_count.slot, roundKey)),
+      ]);
+      if (state < ElectionState.Closed || revealedCount < sealedCount) {
+        return { blockNumber, round, state, votingWindow, tallies: null, runoff };
+      }
+    }
+
+    const roundTallySlot = await deriveStorageSlotInMap(storage.tally.slot, roundKey);
+    const counts = await Promise.all(
+      candidateIds.map(async candidateId =>
+        read(await deriveStorageSlotInMap(roundTallySlot, { toField: () => new Fr(candidateId) }))
+      )
+    );
+    const tallies = candidateIds.reduce<Record<number, bigint>>((result, candidateId, index) => {
+      result[candidateId] = counts[index];
+      return result;
+    }, {});
+    return { blockNumber, round, state, votingWindow, tallies, runoff };
+  }
+
+  /**
+   * Give this PXE the keys of the election's ballot sender, which sealed ballots are tagged with
+   */
+  private async registerBallotSender(): Promise<void> {
+    const { secretKey, partialAddress } = await computeBallotSender(Fr.fromString(this.election.salt));
+    await wallet.getPXE().registerAccount(secretKey, partialAddress);
+  }
+
+  /**
+   * Get the connected account's membership witness, or an empty one for open elections
+   */
+  private async getVoterWitness(): Promise<VoterWitness> {
+    if (!this.election.voterRoot) {
+      return { index: 0, weight: BigInt(1), path: Array(VOTER_TREE_DEPTH).fill(Fr.ZERO) };
+    }
+
+    const connectedAccount = wallet.getConnectedAccount();
+    if (!connectedAccount) {
+      throw new Error('No account connected');
+    }
+    const witness = loadVoterWitness(this.election.address, connectedAccount.getAddress().toString());
+    if (!witness) {
+      throw new Error('Import your voter witness from the election admin before voting');
+    }
+    return witness;
+  }
+
   /**
    * Get contract instance
    */
-  getContract(): Contract | null {
+  getContract(): EasyPrivateVotingContract | null {
     return this.contract;
   }
 
@@ -222,7 +1096,11 @@ export class PrivateVotingContractHandler {
   getContractAddress(): AztecAddress {
     return this.contractAddress;
   }
-}
 
-// Export a singleton instance
-export const privateVotingContract = new PrivateVotingContractHandler(); 
\ No newline at end of file
+  /**
+   * Get the election this handler is bound to
+   */
+  getElection(): ElectionDeployment {
+    return this.election;
+  }
+}
@@ -0,0 +1,118 @@
+// Must match MAX_RANKINGS in src/ranked.nr
+export const MAX_RANKINGS = 5;
+
+export interface RankedBallot {
+  // Candidate ids in order of preference
+  rankings: number[];
+  weight: bigint;
+}
+
+export interface InstantRunoffRound {
+  round: number;
+  // Weight counted for each continuing candidate, keyed by candidate id
+  tallies: Record<number, bigint>;
+  // Weight of ballots with no continuing candidate left
+  exhausted: bigint;
+  // Candidates eliminated at the end of this round
+  eliminated: number[];
+}
+
+export interface InstantRunoffResult {
+  rounds: InstantRunoffRound[];
+  // Combined weight of every ballot counted
+  totalWeight: bigint;
+  // Null when the last continuing candidates are tied
+  winner: number | null;
+}
+
+/**
+ * Validate a voter's rankings and pad them with zeros to the contract's fixed length
+ */
+export function encodeRankings(rankings: number[]): number[] {
+  if (rankings.length === 0) {
+    throw new Error('Ballot must rank at least one candidate');
+  }
+  if (rankings.length > MAX_RANKINGS) {
+    throw new Error(`Ballot ranks ${rankings.length} candidates; the maximum is ${MAX_RANKINGS}`);
+  }
+  rankings.forEach((candidateId, index) => {
+    if (!Number.isSafeInteger(candidateId) || candidateId <= 0) {
+      throw new Error(`Invalid candidate id ${candidateId}`);
+    }
+    if (rankings.indexOf(candidateId) !== index) {
+      throw new Error(`Candidate ${candidateId} ranked more than once`);
+    }
+  });
+
+  const padded = rankings.slice();
+  while (padded.length < MAX_RANKINGS) {
+    padded.push(0);
+  }
+  return padded;
+}
+
+/**
+ * Strip the zero padding from rankings read back from the contract
+ */
+export function decodeRankings(rankings: Array<bigint | number | string>): number[] {
+  const decoded = rankings.map(candidateId => Number(candidateId));
+  const end = decoded.indexOf(0);
+  return end === -1 ? decoded : decoded.slice(0, end);
+}
+
+/**
+ * Run an instant-runoff count.
+ * Each round counts every ballot for its highest-ranked continuing candidate. A candidate with a
+ * majority of the continuing weight wins; otherwise the candidates with the lowest tally are
+ * eliminated together and their ballots transfer in the next round.
+ * Rankings of candidates that are not in `candidateIds` are skipped.
+ */
+export function tabulateInstantRunoff(ballots: RankedBallot[], candidateIds: number[]): InstantRunoffResult {
+  const rounds: InstantRunoffRound[] = [];
+  const totalWeight = ballots.reduce((total, ballot) => total + ballot.weight, BigInt(0));
+  let continuing = candidateIds.slice();
+
+  while (continuing.length > 0) {
+    const tallies = continuing.reduce<Record<number, bigint>>((counts, candidateId) => {
+      counts[candidateId] = BigInt(0);
+      return counts;
+    }, {});
+    let exhausted = BigInt(0);
+    let total = BigInt(0);
+
+    ballots.forEach(ballot => {
+      const choice = ballot.rankings.find(candidateId => continuing.indexOf(candidateId) !== -1);
+      if (choice === undefined) {
+        exhausted += ballot.weight;
+      } else {
+        tallies[choice] += ballot.weight;
+        total += ballot.weight;
+      }
+    });
+
+    const round: InstantRunoffRound = { round: rounds.length + 1, tallies, exhausted, eliminated: [] };
+    rounds.push(round);
+
+    const leader = continuing.find(candidateId => tallies[candidateId] * BigInt(2) > total);
+    if (leader !== undefined) {
+      return { rounds, totalWeight, winner: leader };
+    }
+    if (continuing.length === 1) {
+      return { rounds, totalWeight, winner: continuing[0] };
+    }
+
+    const lowest = continuing.reduce(
+      (min, candidateId) => (tallies[candidateId] < min ? tallies[candidateId] : min),
+      tallies[continuing[0]]
+    );
+    round.eliminated = continuing.filter(candidateId => tallies[candidateId] === lowest);
+    if (round.eliminated.length === continuing.length) {
+      // Every continuing candidate is tied, so no one can be eliminated
+      round.eliminated = [];
+      return { rounds, totalWeight, winner: null };
+    }
+    continuing = continuing.filter(candidateId => round.eliminated.indexOf(candidateId) === -1);
+  }
+
+  return { rounds, totalWeight, winner: null };
+}
@@ -0,0 +1,230 @@
+import { AztecAddress, Fr } from '@aztec/aztec.js';
+import { pedersenHash } from '@aztec/foundation/crypto';
+
+// Must match VOTER_TREE_DEPTH in src/voters.nr
+export const VOTER_TREE_DEPTH = 10;
+export const MAX_VOTERS = 2 ** VOTER_TREE_DEPTH;
+
+export interface VoterEntry {
+  address: string;
+  // Vote weight as a decimal string, e.g. the voter's token balance at the snapshot block
+  weight: string;
+}
+
+export interface VoterWitness {
+  index: number;
+  weight: bigint;
+  path: Fr[];
+}
+
+// A witness as written to JSON, with the weight and path nodes as strings
+export interface ExportedVoterWitness {
+  index: number;
+  weight: string;
+  path: string[];
+}
+
+/**
+ * Witness file the admin hands a voter, keyed by voter address. Each file holds only that voter's entry,
+ * so no voter sees the rest of the list.
+ */
+export interface VoterWitnessFile {
+  voterRoot: string;
+  witnesses: Record<string, ExportedVoterWitness>;
+}
+
+/**
+ * Parse a CSV of voters into normalized entries.
+ * The first column holds the address and the optional second column the vote weight
+ * (defaults to 1); a header row, blank lines and `#` comments are skipped.
+ */
+export function parseVoterCsv(csv: string): VoterEntry[] {
+  const voters: VoterEntry[] = [];
+  const seen = new Set<string>();
+
+  csv.split(/\r?\n/).forEach((line, lineIndex) => {
+    const trimmed = line.trim();
+    if (!trimmed || trimmed.startsWith('#')) {
+      return;
+    }
+
+    const [firstColumn, weightColumn] = trimmed
+      .split(',')
+      .map(column => column.trim().replace(/^"|"$/g, ''));
+    if (lineIndex === 0 && !firstColumn.startsWith('0x')) {
+      // Header row
+      return;
+    }
+
+    let voter: string;
+    try {
+      voter = AztecAddress.fromString(firstColumn).toString();
+    } catch (error) {
+      throw new Error(`Invalid voter address on line ${lineIndex + 1}: ${firstColumn}`);
+    }
+    if (seen.has(voter)) {
+      throw new Error(`Duplicate voter address on line ${lineIndex + 1}: ${voter}`);
+    }
+
+    const weight = weightColumn ? weightColumn : '1';
+    if (!/^\d+$/.test(weight) || BigInt(weight) === BigInt(0)) {
+      throw new Error(`Invalid weight on line ${lineIndex + 1}: ${weight}`);
+    }
+
+    seen.add(voter);
+    voters.push({ address: voter, weight: BigInt(weight).toString() });
+  });
+
+  return voters;
+}
+
+/**
+ * Check whether any voter carries a weight other than 1
+ */
+export function isWeighted(voters: VoterEntry[]): boolean {
+  return voters.some(voter => BigInt(voter.weight) !== BigInt(1));
+}
+
+/**
+ * Compute the allowlist leaf for a voter, matching compute_voter_leaf in the contract
+ */
+export async function computeVoterLeaf(voter: AztecAddress, weight: bigint): Promise<Fr> {
+  return pedersenHash([voter.toField(), new Fr(weight)]);
+}
+
+/**
+ * Recompute the allowlist root a voter's witness proves to, matching compute_voter_root in the contract
+ */
+export async function computeWitnessRoot(voter: AztecAddress, witness: VoterWitness): Promise<Fr> {
+  let current = await computeVoterLeaf(voter, witness.weight);
+  for (let level = 0; level < VOTER_TREE_DEPTH; level++) {
+    const sibling = witness.path[level];
+    current = (witness.index >> level) & 1
+      ? await pedersenHash([sibling, current])
+      : await pedersenHash([current, sibling]);
+  }
+  return current;
+}
+
+/**
+ * Parse a witness from JSON, throwing on anything malformed
+ */
+export function parseVoterWitness(exported: ExportedVoterWitness): VoterWitness {
+  if (!Number.isSafeInteger(exported.index) || exported.index < 0 || exported.index >= MAX_VOTERS) {
+    throw new Error(`Invalid witness index ${exported.index}`);
+  }
+  if (!Array.isArray(exported.path) || exported.path.length !== VOTER_TREE_DEPTH) {
+    throw new Error(`Witness path must have ${VOTER_TREE_DEPTH} nodes`);
+  }
+  const weight = BigInt(exported.weight);
+  if (weight <= BigInt(0)) {
+    throw new Error(`Invalid witness weight ${exported.weight}`);
+  }
+  return { index: exported.index, weight, path: exported.path.map(node => Fr.fromString(node)) };
+}
+
+/**
+ * Merkle tree of eligible voters and their weights, hashed with pedersen like the contract's compute_voter_root
+ */
+export class VoterTree {
+  private voters: VoterEntry[];
+  private layers: Fr[][];
+  private zeroHashes: Fr[];
+
+  private constructor(voters: VoterEntry[], layers: Fr[][], zeroHashes: Fr[]) {
+    this.voters = voters;
+    this.layers = layers;
+    this.zeroHashes = zeroHashes;
+  }
+
+  /**
+   * Build the tree from a list of voters and their weights
+   */
+  static async build(voters: VoterEntry[]): Promise<VoterTree> {
+    if (voters.length === 0) {
+      throw new Error('Voter list is empty');
+    }
+    if (voters.length > MAX_VOTERS) {
+      throw new Error(`Voter list has ${voters.length} entries; the maximum is ${MAX_VOTERS}`);
+    }
+
+    const normalized = voters.map(voter => ({
+      address: AztecAddress.fromString(voter.address).toString(),
+      weight: BigInt(voter.weight).toString(),
+    }));
+
+    // Hashes of empty subtrees at each level
+    const zeroHashes: Fr[] = [Fr.ZERO];
+    for (let level = 0; level < VOTER_TREE_DEPTH; level++) {
+      zeroHashes.push(await pedersenHash([zeroHashes[level], zeroHashes[level]]));
+    }
+
+    const layers: Fr[][] = [
+      await Promise.all(
+        normalized.map(voter => computeVoterLeaf(AztecAddress.fromString(voter.address), BigInt(voter.weight)))
+      ),
+    ];
+    for (let level = 0; level < VOTER_TREE_DEPTH; level++) {
+      const current = layers[level];
+      const next: Fr[] = [];
+      for (let i = 0; i < current.length; i += 2) {
+        next.push(await pedersenHash([current[i], current[i + 1] ?? zeroHashes[level]]));
+      }
+      layers.push(next);
+    }
+
+    return new VoterTree(normalized, layers, zeroHashes);
+  }
+
+  /**
+   * Get the root the admin publishes on-chain
+   */
+  getRoot(): Fr {
+    return this.layers[VOTER_TREE_DEPTH][0];
+  }
+
+  /**
+   * Check whether an address is on the voter list
+   */
+  hasVoter(voter: string): boolean {
+    return this.indexOf(voter) !== -1;
+  }
+
+  /**
+   * Get the membership witness a voter passes to cast_vote
+   */
+  getWitness(voter: string): VoterWitness {
+    const index = this.indexOf(voter);
+    if (index === -1) {
+      throw new Error(`${voter} is not on the voter list`);
+    }
+
+    const path: Fr[] = [];
+    let position = index;
+    for (let level = 0; level < VOTER_TREE_DEPTH; level++) {
+      path.push(this.layers[level][position ^ 1] ?? this.zeroHashes[level]);
+      position >>= 1;
+    }
+
+    return { index, weight: BigInt(this.voters[index].weight), path };
+  }
+
+  /**
+   * Export one voter's witness file, to send to that voter alone
+   */
+  exportWitnessFile(voter: string): VoterWitnessFile {
+    const address = AztecAddress.fromString(voter).toString();
+    const { index, weight, path } = this.getWitness(address);
+    return {
+      voterRoot: this.getRoot().toString(),
+      witnesses: {
+        [address]: { index, weight: weight.toString(), path: path.map(node => node.toString()) },
+      },
+    };
+  }
+
+  private indexOf(voter: string): number {
+    const address = AztecAddress.fromString(voter).toString();
+    return this.voters.findIndex(entry => entry.address === address);
+  }
+}
@@ -0,0 +1,48 @@
+import { AztecAddress } from '@aztec/aztec.js';
+import { parseVoterWitness, type ExportedVoterWitness, type VoterWitness } from './voterAllowlist';
+
+const VoterWitnessesStorageKey = 'aztec-voter-witnesses';
+
+/**
+ * Get a voter's stored witness for an election, or null if they have not imported one
+ */
+export function loadVoterWitness(electionAddress: string, voter: string): VoterWitness | null {
+  const stored = getStoredWitnesses()[witnessKey(electionAddress, voter)];
+  return stored ? parseVoterWitness(stored) : null;
+}
+
+/**
+ * Store a voter's witness for an election in this browser
+ */
+export function saveVoterWitness(electionAddress: string, voter: string, witness: VoterWitness): void {
+  if (typeof window === 'undefined') {
+    return;
+  }
+  const witnesses = getStoredWitnesses();
+  witnesses[witnessKey(electionAddress, voter)] = {
+    index: witness.index,
+    weight: witness.weight.toString(),
+    path: witness.path.map(node => node.toString()),
+  };
+  localStorage.setItem(VoterWitnessesStorageKey, JSON.stringify(witnesses));
+}
+
+function witnessKey(electionAddress: string, voter: string): string {
+  return `${AztecAddress.fromString(electionAddress)}:${AztecAddress.fromString(voter)}`;
+}
+
+/**
+ * Get witnesses stored in localStorage, keyed by election and voter address
+ */
+function getStoredWitnesses(): Record<string, ExportedVoterWitness> {
+  try {
+    if (typeof window === 'undefined') {
+      return {};
+    }
+    const witnesses = localStorage.getItem(VoterWitnessesStorageKey);
+    return witnesses ? (JSON.parse(witnesses) as Record<string, ExportedVoterWitness>) : {};
+  } catch (error) {
+    console.error('Failed to parse stored voter witnesses:', error);
+    return {};
+  }
+}
@@ -0,0 +1,83 @@
+import { AztecAddress, Fr } from '@aztec/aztec.js';
+
+export type FeeMethod = 'sponsored' | 'fee-juice' | 'fpc' | 'fee-juice-claim';
+
+/**
+ * A fee juice deposit bridged from L1 to the account, as printed when bridging.
+ * Each claim can only be spent once.
+ */
+export interface FeeJuiceClaim {
+  claimAmount: string;
+  claimSecret: string;
+  messageLeafIndex: string;
+}
+
+/**
+ * How the wallet pays transaction fees
+ */
+export type FeeStrategy =
+  // The network's sponsored FPC pays; only deployed on sandbox-like networks
+  | { method: 'sponsored' }
+  // The account pays from its own fee juice balance
+  | { method: 'fee-juice' }
+  // A fee payment contract pays in fee juice and charges the account in its token, privately or publicly
+  | { method: 'fpc'; mode: 'private' | 'public'; fpc: string; token: string }
+  // Fee juice bridged from L1 is claimed and spent in the same transaction
+  | { method: 'fee-juice-claim'; claim: FeeJuiceClaim };
+
+export const FEE_METHODS: { method: FeeMethod; label: string }[] = [
+  { method: 'sponsored', label: 'Sponsored FPC' },
+  { method: 'fee-juice', label: 'Fee juice from the account' },
+  { method: 'fpc', label: 'Fee payment contract with a token' },
+  { method: 'fee-juice-claim', label: 'Fee juice claimed from L1' },
+];
+
+/**
+ * Check a fee strategy's addresses and claim before it is used, throwing on anything malformed
+ */
+export function validateFeeStrategy(strategy: FeeStrategy): FeeStrategy {
+  switch (strategy.method) {
+    case 'sponsored':
+    case 'fee-juice':
+      return strategy;
+    case 'fpc':
+      if (strategy.mode !== 'private' && strategy.mode !== 'public') {
+        throw new Error(`Invalid fee payment mode ${strategy.mode}`);
+      }
+      if (AztecAddress.fromString(strategy.fpc).isZero() || AztecAddress.fromString(strategy.token).isZero()) {
+        throw new Error('Fee payment contract and token addresses are required');
+      }
+      return strategy;
+    case 'fee-juice-claim':
+      if (BigInt(strategy.claim.claimAmount) <= BigInt(0)) {
+        throw new Error('Claim amount must be positive');
+      }
+      Fr.fromString(strategy.claim.claimSecret);
+      if (BigInt(strategy.claim.messageLeafIndex) < BigInt(0)) {
+        throw new Error('Invalid claim message leaf index');
+      }
+      return strategy;
+    default:
+      throw new Error(`Unsupported fee method ${(strategy as FeeStrategy).method}`);
+  }
+}
+
+/**
+ * Describe a fee strategy for showing before a transaction is sent
+ */
+export function describeFeeStrategy(strategy: FeeStrategy): string {
+  switch (strategy.method) {
+    case 'sponsored':
+      return 'Sponsored FPC (free)';
+    case 'fee-juice':
+      return 'Fee juice from your account';
+    case 'fpc':
+      return `${strategy.mode === 'private' ? 'Private' : 'Public'} FPC ${shortAddress(strategy.fpc)}, paid in token ${shortAddress(strategy.token)}`;
+    case 'fee-juice-claim':
+      return `Fee juice claimed from L1 (${strategy.claim.claimAmount})`;
+  }
+}
+
+function shortAddress(address: string): string {
+  return `${address.slice(0, 6)}...${address.slice(-4)}`;
+}
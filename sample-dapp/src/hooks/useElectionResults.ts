@@ -0,0 +1,96 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { RESULTS_POLL_INTERVAL_MS } from '../constants';
+import type { PrivateVotingContractHandler, TallySnapshot } from '../contracts/privateVotingContract';
+import { wallet } from '../wallet-browser';
+
+export interface UseElectionResultsReturn {
+  // Latest confirmed tallies; null until the first read completes
+  snapshot: TallySnapshot | null;
+  // Latest block seen on the node
+  blockNumber: number | null;
+  // When the tallies were last confirmed against the node's latest block
+  lastSyncedAt: Date | null;
+  isSyncing: boolean;
+  error: string | null;
+
+  // Re-read the tallies now, e.g. once a transaction has been mined
+  refresh: () => Promise<void>;
+}
+
+export function useElectionResults(
+  // Null while no election is selected
+  handler: PrivateVotingContractHandler | null,
+  candidateIds: number[],
+  enabled: boolean,
+): UseElectionResultsReturn {
+  const [snapshot, setSnapshot] = useState<TallySnapshot | null>(null);
+  const [blockNumber, setBlockNumber] = useState<number | null>(null);
+  const [lastSyncedAt, setLastSyncedAt] = useState<Date | null>(null);
+  const [isSyncing, setIsSyncing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Public state only changes with a new block, so the tallies are re-read once per block
+  const syncedBlock = useRef<number | null>(null);
+  const inFlight = useRef(false);
+  // Bumped whenever the election changes so late reads for the previous one are dropped
+  const generation = useRef(0);
+  const candidateKey = candidateIds.join(',');
+
+  const sync = useCallback(async () => {
+    if (inFlight.current || !handler) return;
+
+    const started = generation.current;
+    inFlight.current = true;
+    setIsSyncing(true);
+    try {
+      const latestBlock = await wallet.getBlockNumber();
+      if (started !== generation.current) return;
+      setBlockNumber(latestBlock);
+
+      if (latestBlock !== syncedBlock.current) {
+        const latest = await handler.getAllTallies(candidateIds);
+        if (started !== generation.current) return;
+        syncedBlock.current = latest.blockNumber;
+        setSnapshot(latest);
+      }
+      setLastSyncedAt(new Date());
+      setError(null);
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to sync results';
+      setError(errorMessage);
+      console.error('Sync results error:', err);
+    } finally {
+      inFlight.current = false;
+      setIsSyncing(false);
+    }
+  }, [handler, candidateKey]);
+
+  // Start over whenever the election changes, then poll for new blocks
+  useEffect(() => {
+    generation.current += 1;
+    syncedBlock.current = null;
+    inFlight.current = false;
+    setSnapshot(null);
+    setLastSyncedAt(null);
+    setError(null);
+    if (!enabled || !handler) return;
+
+    sync();
+    const interval = setInterval(sync, RESULTS_POLL_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [enabled, handler, sync]);
+
+  const refresh = useCallback(async () => {
+    syncedBlock.current = null;
+    await sync();
+  }, [sync]);
+
+  return {
+    snapshot,
+    blockNumber,
+    lastSyncedAt,
+    isSyncing,
+    error,
+    refresh,
+  };
+}
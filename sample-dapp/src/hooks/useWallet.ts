@@ -1,5 +1,9 @@
 import { useState, useEffect, useCallback } from 'react';
-import { wallet, type AccountData, type WalletState } from '../wallet-browser';
+import type { ContractFunctionInteraction, TxReceipt } from '@aztec/aztec.js';
+import { wallet, type AccountData, type StoredAccountInfo, type WalletState } from '../wallet-browser';
+import type { AccountType } from '../accountTypes';
+import type { FeeStrategy } from '../fees';
+import { DEFAULT_FEE_STRATEGY } from '../constants';
 
 export interface UseWalletReturn {
   // State
@@ -9,16 +13,28 @@ export interface UseWalletReturn {
   
   // Actions
   initialize: () => Promise<void>;
-  createAccount: () => Promise<AccountData | null>;
-  connectAccount: () => Promise<AccountData | null>;
+  createAccount: (password: string, name?: string, type?: AccountType) => Promise<AccountData | null>;
+  connectAccount: (password: string) => Promise<AccountData | null>;
+  listAccounts: () => StoredAccountInfo[];
+  switchAccount: (address: string, password: string) => Promise<AccountData | null>;
+  renameAccount: (address: string, name: string) => void;
+  removeAccount: (address: string) => void;
+  // Returns the backup file contents, encrypted with the password
+  exportAccount: (password: string) => Promise<string | null>;
+  importAccount: (json: string, password: string) => Promise<AccountData | null>;
   connectTestAccount: (index?: number) => Promise<AccountData | null>;
   disconnectAccount: () => void;
-  sendTransaction: (interaction: any) => Promise<any>;
-  simulateTransaction: (interaction: any) => Promise<any>;
+  sendTransaction: (interaction: ContractFunctionInteraction) => Promise<TxReceipt>;
+  // Decode the result before use; see src/contracts/decoders.ts
+  simulateTransaction: (interaction: ContractFunctionInteraction) => Promise<unknown>;
   getBalance: () => Promise<bigint>;
+  getBlockNumber: () => Promise<number>;
   clearStoredAccount: () => void;
+  // Pass null to go back to the network's default
+  setFeeStrategy: (strategy: FeeStrategy | null) => void;
   
   // Utilities
+  isNodeConnected: boolean;
   isInitialized: boolean;
   isConnected: boolean;
 }
@@ -28,6 +44,9 @@ export function useWallet(): UseWalletReturn {
     isConnected: false,
     account: null,
     address: null,
+    accounts: [],
+    selectedAccount: null,
+    feeStrategy: DEFAULT_FEE_STRATEGY,
   });
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -54,11 +73,11 @@ export function useWallet(): UseWalletReturn {
   }, [updateWalletState]);
 
   // Create account
-  const createAccount = useCallback(async (): Promise<AccountData | null> => {
+  const createAccount = useCallback(async (password: string, name?: string, type?: AccountType): Promise<AccountData | null> => {
     setIsLoading(true);
     setError(null);
     try {
-      const accountData = await wallet.createAccount();
+      const accountData = await wallet.createAccount(password, name, type);
       updateWalletState();
       return accountData;
     } catch (err) {
@@ -72,11 +91,11 @@ export function useWallet(): UseWalletReturn {
   }, [updateWalletState]);
 
   // Connect account
-  const connectAccount = useCallback(async (): Promise<AccountData | null> => {
+  const connectAccount = useCallback(async (password: string): Promise<AccountData | null> => {
     setIsLoading(true);
     setError(null);
     try {
-      const accountData = await wallet.connectAccount();
+      const accountData = await wallet.connectAccount(password);
       updateWalletState();
       return accountData;
     } catch (err) {
@@ -89,6 +108,89 @@ export function useWallet(): UseWalletReturn {
     }
   }, [updateWalletState]);
 
+  // List stored accounts
+  const listAccounts = useCallback((): StoredAccountInfo[] => {
+    return wallet.listAccounts();
+  }, []);
+
+  // Switch to another stored account
+  const switchAccount = useCallback(async (address: string, password: string): Promise<AccountData | null> => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const accountData = await wallet.switchAccount(address, password);
+      updateWalletState();
+      return accountData;
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to switch account';
+      setError(errorMessage);
+      console.error('Switch account error:', err);
+      return null;
+    } finally {
+      setIsLoading(false);
+    }
+  }, [updateWalletState]);
+
+  // Rename a stored account
+  const renameAccount = useCallback((address: string, name: string) => {
+    try {
+      wallet.renameAccount(address, name);
+      updateWalletState();
+      setError(null);
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to rename account';
+      setError(errorMessage);
+      console.error('Rename account error:', err);
+    }
+  }, [updateWalletState]);
+
+  // Remove a stored account
+  const removeAccount = useCallback((address: string) => {
+    try {
+      wallet.removeAccount(address);
+      updateWalletState();
+      setError(null);
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to remove account';
+      setError(errorMessage);
+      console.error('Remove account error:', err);
+    }
+  }, [updateWalletState]);
+
+  // Export the connected account to a backup file
+  const exportAccount = useCallback(async (password: string): Promise<string | null> => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      return await wallet.exportAccount(password);
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to export account';
+      setError(errorMessage);
+      console.error('Export account error:', err);
+      return null;
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  // Import an account from a backup file
+  const importAccount = useCallback(async (json: string, password: string): Promise<AccountData | null> => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const accountData = await wallet.importAccount(json, password);
+      updateWalletState();
+      return accountData;
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to import account';
+      setError(errorMessage);
+      console.error('Import account error:', err);
+      return null;
+    } finally {
+      setIsLoading(false);
+    }
+  }, [updateWalletState]);
+
   // Connect test account
   const connectTestAccount = useCallback(async (index: number = 0): Promise<AccountData | null> => {
     setIsLoading(true);
@@ -115,7 +217,7 @@ export function useWallet(): UseWalletReturn {
   }, [updateWalletState]);
 
   // Send transaction
-  const sendTransaction = useCallback(async (interaction: any) => {
+  const sendTransaction = useCallback(async (interaction: ContractFunctionInteraction): Promise<TxReceipt> => {
     setIsLoading(true);
     setError(null);
     try {
@@ -132,7 +234,7 @@ export function useWallet(): UseWalletReturn {
   }, []);
 
   // Simulate transaction
-  const simulateTransaction = useCallback(async (interaction: any) => {
+  const simulateTransaction = useCallback(async (interaction: ContractFunctionInteraction): Promise<unknown> => {
     setIsLoading(true);
     setError(null);
     try {
@@ -161,6 +263,16 @@ export function useWallet(): UseWalletReturn {
     }
   }, []);
 
+  // Get current block number
+  const getBlockNumber = useCallback(async (): Promise<number> => {
+    try {
+      return await wallet.getBlockNumber();
+    } catch (err) {
+      console.error('Get block number error:', err);
+      throw err;
+    }
+  }, []);
+
   // Clear stored account
   const clearStoredAccount = useCallback(() => {
     wallet.clearStoredAccount();
@@ -168,9 +280,35 @@ export function useWallet(): UseWalletReturn {
     setError(null);
   }, [updateWalletState]);
 
+  // Choose how transaction fees are paid
+  const setFeeStrategy = useCallback((strategy: FeeStrategy | null) => {
+    try {
+      wallet.setFeeStrategy(strategy);
+      updateWalletState();
+      setError(null);
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to set fee strategy';
+      setError(errorMessage);
+      console.error('Set fee strategy error:', err);
+    }
+  }, [updateWalletState]);
+
+  // Pick up an account connected before this component mounted, e.g. on another page
+  useEffect(() => {
+    updateWalletState();
+  }, [updateWalletState]);
+
   // Auto-initialize wallet on first load
   useEffect(() => {
     const autoInitialize = async () => {
+      // Connect to the node first so public results show while PXE is still starting
+      try {
+        await wallet.connectNode();
+        updateWalletState();
+      } catch (error) {
+        console.error('Node connection failed:', error);
+      }
+
       if (!wallet.isInitialized()) {
         try {
           await initialize();
@@ -181,7 +319,7 @@ export function useWallet(): UseWalletReturn {
     };
     
     autoInitialize();
-  }, [initialize]);
+  }, [initialize, updateWalletState]);
 
   return {
     // State
@@ -193,14 +331,23 @@ export function useWallet(): UseWalletReturn {
     initialize,
     createAccount,
     connectAccount,
+    listAccounts,
+    switchAccount,
+    renameAccount,
+    removeAccount,
+    exportAccount,
+    importAccount,
     connectTestAccount,
     disconnectAccount,
     sendTransaction,
     simulateTransaction,
     getBalance,
+    getBlockNumber,
     clearStoredAccount,
+    setFeeStrategy,
     
     // Utilities
+    isNodeConnected: wallet.isNodeConnected(),
     isInitialized: wallet.isInitialized(),
     isConnected: wallet.isConnected(),
   };
@@ -0,0 +1,154 @@
+import type { AccountData } from './wallet-browser';
+
+// Bump when the keystore layout or its defaults change; older versions must stay readable
+export const KEYSTORE_VERSION = 1;
+
+export const MIN_PASSWORD_LENGTH = 8;
+
+// OWASP's recommended work factor for PBKDF2-HMAC-SHA256
+const PBKDF2_ITERATIONS = 600000;
+const SALT_BYTES = 16;
+const IV_BYTES = 12;
+
+/**
+ * A JSON value sealed with a password: the key is derived with PBKDF2 and the value is encrypted with AES-256-GCM
+ */
+export interface PasswordEncrypted {
+  kdf: {
+    name: 'pbkdf2';
+    hash: 'SHA-256';
+    iterations: number;
+    salt: string;
+  };
+  cipher: {
+    name: 'aes-256-gcm';
+    iv: string;
+  };
+  // Hex encoded, with the GCM tag appended
+  ciphertext: string;
+}
+
+/**
+ * Password-protected AccountData as stored in localStorage.
+ * The address stays in the clear so the account can be listed before unlocking, and is bound to the
+ * ciphertext as associated data.
+ */
+export interface EncryptedKeystore extends PasswordEncrypted {
+  version: number;
+  address: string;
+}
+
+/**
+ * Check whether a stored value is an encrypted keystore rather than legacy plaintext AccountData
+ */
+export function isEncryptedKeystore(value: unknown): value is EncryptedKeystore {
+  const keystore = value as EncryptedKeystore | null;
+  return !!keystore
+    && typeof keystore.version === 'number'
+    && typeof keystore.ciphertext === 'string'
+    && !!keystore.kdf
+    && !!keystore.cipher;
+}
+
+/**
+ * Encrypt an account with a password
+ */
+export async function encryptAccount(account: AccountData, password: string): Promise<EncryptedKeystore> {
+  return {
+    version: KEYSTORE_VERSION,
+    address: account.address,
+    ...(await encryptWithPassword(account, account.address, password)),
+  };
+}
+
+/**
+ * Decrypt a keystore. A wrong password and a tampered keystore fail the same way.
+ */
+export async function decryptAccount(keystore: EncryptedKeystore, password: string): Promise<AccountData> {
+  if (keystore.version !== KEYSTORE_VERSION) {
+    throw new Error(`Unsupported keystore version ${keystore.version}`);
+  }
+
+  const account = await decryptWithPassword<AccountData>(keystore, keystore.address, password);
+  if (account.address !== keystore.address) {
+    throw new Error('Keystore address does not match its contents');
+  }
+  return account;
+}
+
+/**
+ * Encrypt any JSON value with a password, binding it to associated data that is stored in the clear
+ */
+export async function encryptWithPassword(value: unknown, associatedData: string, password: string): Promise<PasswordEncrypted> {
+  if (password.length < MIN_PASSWORD_LENGTH) {
+    throw new Error(`Password must be at least ${MIN_PASSWORD_LENGTH} characters`);
+  }
+
+  const salt = randomBytes(SALT_BYTES);
+  const iv = randomBytes(IV_BYTES);
+  const key = await deriveKey(password, salt, PBKDF2_ITERATIONS);
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv, additionalData: encodeText(associatedData) },
+    key,
+    encodeText(JSON.stringify(value))
+  );
+
+  return {
+    kdf: { name: 'pbkdf2', hash: 'SHA-256', iterations: PBKDF2_ITERATIONS, salt: toHex(salt) },
+    cipher: { name: 'aes-256-gcm', iv: toHex(iv) },
+    ciphertext: toHex(new Uint8Array(ciphertext)),
+  };
+}
+
+/**
+ * Decrypt a value sealed by encryptWithPassword. A wrong password and tampered data fail the same way.
+ */
+export async function decryptWithPassword<T>(sealed: PasswordEncrypted, associatedData: string, password: string): Promise<T> {
+  if (sealed.kdf.name !== 'pbkdf2' || sealed.cipher.name !== 'aes-256-gcm') {
+    throw new Error(`Unsupported keystore algorithms ${sealed.kdf.name} / ${sealed.cipher.name}`);
+  }
+
+  const key = await deriveKey(password, fromHex(sealed.kdf.salt), sealed.kdf.iterations);
+  let plaintext: ArrayBuffer;
+  try {
+    plaintext = await crypto.subtle.decrypt(
+      { name: 'AES-GCM', iv: fromHex(sealed.cipher.iv), additionalData: encodeText(associatedData) },
+      key,
+      fromHex(sealed.ciphertext)
+    );
+  } catch (error) {
+    throw new Error('Incorrect password or corrupted keystore');
+  }
+
+  return JSON.parse(new TextDecoder().decode(plaintext)) as T;
+}
+
+/**
+ * Derive the AES key from a password with PBKDF2-HMAC-SHA256
+ */
+async function deriveKey(password: string, salt: BufferSource, iterations: number): Promise<CryptoKey> {
+  const baseKey = await crypto.subtle.importKey('raw', encodeText(password), 'PBKDF2', false, ['deriveKey']);
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', hash: 'SHA-256', salt, iterations },
+    baseKey,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+}
+
+function randomBytes(length: number) {
+  return crypto.getRandomValues(new Uint8Array(length));
+}
+
+function encodeText(text: string) {
+  return Uint8Array.from(new TextEncoder().encode(text));
+}
+
+function toHex(bytes: Uint8Array): string {
+  return Buffer.from(bytes).toString('hex');
+}
+
+function fromHex(hex: string) {
+  return Uint8Array.from(Buffer.from(hex, 'hex'));
+}
@@ -5,56 +5,128 @@ import {
   AztecAddress,
   getContractInstanceFromDeployParams,
   ContractFunctionInteraction,
+  type ContractBase,
+  DeployMethod,
   SponsoredFeePaymentMethod,
+  FeeJuicePaymentMethod,
+  FeeJuicePaymentMethodWithClaim,
+  PrivateFeePaymentMethod,
+  PublicFeePaymentMethod,
+  type FeePaymentMethod,
   type PXE,
+  type AztecNode,
+  type TxReceipt,
   AccountWallet,
   type ContractArtifact,
   ContractInstanceWithAddress,
 } from '@aztec/aztec.js';
 import { getDefaultInitializer } from '@aztec/stdlib/abi';
 import { SponsoredFPCContractArtifact } from '@aztec/noir-contracts.js/SponsoredFPC';
+import { FPCContractArtifact } from '@aztec/noir-contracts.js/FPC';
 import { SPONSORED_FPC_SALT } from '@aztec/constants';
-import { randomBytes } from '@aztec/foundation/crypto';
-import { getEcdsaRAccount } from '@aztec/accounts/ecdsa/lazy';
 import { getSchnorrAccount } from '@aztec/accounts/schnorr/lazy';
 import { getPXEServiceConfig } from '@aztec/pxe/config';
 import { createPXEService } from '@aztec/pxe/client/lazy';
 import { getInitialTestAccounts } from '@aztec/accounts/testing';
+import {
+  MIN_PASSWORD_LENGTH,
+  decryptAccount,
+  encryptAccount,
+  isEncryptedKeystore,
+  type EncryptedKeystore,
+} from './keystore';
+import { decryptBackup, encryptBackup, parseBackup } from './backup';
+import {
+  DEFAULT_ACCOUNT_TYPE,
+  createSigningKey,
+  getAccountManager,
+  isAccountType,
+  type AccountType,
+} from './accountTypes';
+import { validateFeeStrategy, type FeeStrategy } from './fees';
+import { DEFAULT_FEE_STRATEGY, NETWORK_FEE_STRATEGIES } from './constants';
 
 const PROVER_ENABLED = true;
 
 const logger = createLogger('wallet');
-const LocalStorageKey = 'aztec-account';
+const LocalStorageKey = 'aztec-accounts';
+// Earlier versions stored a single account here; it is moved into the list on first read
+const LegacyLocalStorageKey = 'aztec-account';
+const SelectedAccountStorageKey = 'aztec-selected-account';
+// Fee strategies chosen in the UI, keyed by node URL; they override NETWORK_FEE_STRATEGIES
+const FeeStrategyStorageKey = 'aztec-fee-strategies';
+
+// aztec.js does not export the deploy receipt type from its root, so derive it from DeployMethod
+type DeployReceipt<T extends ContractBase> = Awaited<ReturnType<ReturnType<DeployMethod<T>['send']>['wait']>>;
 
 export interface AccountData {
   address: string;
+  // Missing on accounts stored before the type was recorded, which are ECDSA-R1
+  type?: AccountType;
   signingKey: string;
   secretKey: string;
   salt: string;
 }
 
+export interface StoredAccountInfo {
+  name: string;
+  address: string;
+  // False for accounts saved before the keystore; they are encrypted on the next unlock
+  encrypted: boolean;
+}
+
 export interface WalletState {
   isConnected: boolean;
+  // Keys of the connected account; only available once it has been unlocked
   account: AccountData | null;
   address: string | null;
+  accounts: StoredAccountInfo[];
+  // The account connectAccount() unlocks: the last one used, or the first stored
+  selectedAccount: StoredAccountInfo | null;
+  // How the next transaction's fee will be paid
+  feeStrategy: FeeStrategy;
+}
+
+interface StoredAccount {
+  name: string;
+  keystore: EncryptedKeystore | AccountData;
 }
 
 export class AztecWallet {
   private pxe!: PXE;
+  private aztecNode!: AztecNode;
   private connectedAccount: AccountWallet | null = null;
+  private connectedAccountData: AccountData | null = null;
   private nodeUrl: string;
 
   constructor(nodeUrl: string = 'http://localhost:8080') {
     this.nodeUrl = nodeUrl;
   }
 
+  /**
+   * Connect to the Aztec node only. This is enough to read public state, with no PXE or account.
+   */
+  async connectNode(): Promise<AztecNode> {
+    if (this.aztecNode) {
+      return this.aztecNode;
+    }
+
+    try {
+      this.aztecNode = await createAztecNodeClient(this.nodeUrl);
+      return this.aztecNode;
+    } catch (error) {
+      logger.error('Failed to connect to node:', error);
+      throw new Error(`Failed to connect to node: ${error}`);
+    }
+  }
+
   /**
    * Initialize the wallet by connecting to the Aztec node and setting up PXE
    */
   async initialize(): Promise<void> {
     try {
       // Create Aztec Node Client
-      const aztecNode = await createAztecNodeClient(this.nodeUrl);
+      const aztecNode = await this.connectNode();
 
       // Create PXE Service
       const config = getPXEServiceConfig();
@@ -68,12 +140,12 @@ export class AztecWallet {
         artifact: SponsoredFPCContractArtifact,
       });
 
-      // Register Private Voting Contract Artifact
+      // Register every known election contract
       try {
-        const { PrivateVotingContractHandler } = await import('./contracts/privateVotingContract');
-        await PrivateVotingContractHandler.registerArtifact();
+        const { electionRegistry } = await import('./contracts/electionRegistry');
+        await electionRegistry.registerAll();
       } catch (error) {
-        logger.warn('Failed to register private voting contract artifact:', error);
+        logger.warn('Failed to register election contracts:', error);
       }
 
       // Log the Node Info
@@ -91,41 +163,57 @@ export class AztecWallet {
   getWalletState(): WalletState {
     return {
       isConnected: !!this.connectedAccount,
-      account: this.getStoredAccount(),
+      account: this.connectedAccountData,
       address: this.connectedAccount?.getAddress().toString() || null,
+      accounts: this.listAccounts(),
+      selectedAccount: this.getSelectedAccount(),
+      feeStrategy: this.getFeeStrategy(),
     };
   }
 
   /**
-   * Create a new account and connect to it
+   * List every stored account without unlocking any of them
    */
-  async createAccount(): Promise<AccountData> {
+  listAccounts(): StoredAccountInfo[] {
+    return this.getStoredAccounts().map(toAccountInfo);
+  }
+
+  /**
+   * Create a new account of the given type and connect to it. Its keys are stored encrypted with the
+   * password, alongside any accounts already stored.
+   */
+  async createAccount(password: string, name?: string, type: AccountType = DEFAULT_ACCOUNT_TYPE): Promise<AccountData> {
     if (!this.pxe) {
       throw new Error('Wallet not initialized. Call initialize() first.');
     }
 
+    // Check the password before deploying so a rejected one doesn't strand the new account
+    if (password.length < MIN_PASSWORD_LENGTH) {
+      throw new Error(`Password must be at least ${MIN_PASSWORD_LENGTH} characters`);
+    }
+    if (!isAccountType(type)) {
+      throw new Error(`Unsupported account type ${type}`);
+    }
+
     try {
       // Generate a random salt, secret key, and signing key
-      const salt = Fr.random();
-      const secretKey = Fr.random();
-      const signingKey = randomBytes(32);
+      const keys = {
+        type,
+        signingKey: createSigningKey(type),
+        secretKey: Fr.random().toString(),
+        salt: Fr.random().toString(),
+      };
 
-      // Create an ECDSA account
-      const ecdsaAccount = await getEcdsaRAccount(
-        this.pxe,
-        secretKey,
-        signingKey,
-        salt
-      );
+      // Create the account with the chosen signature scheme
+      const accountManager = await getAccountManager(this.pxe, keys);
 
-      // Deploy the account
-      const deployMethod = await ecdsaAccount.getDeployMethod();
-      const sponsoredPFCContract = await this.getSponsoredPFCContract();
+      // Deploy the account, which pays for its own deployment with the selected fee strategy
+      const deployMethod = await accountManager.getDeployMethod();
       const deployOpts = {
-        contractAddressSalt: Fr.fromString(ecdsaAccount.salt.toString()),
+        contractAddressSalt: Fr.fromString(accountManager.salt.toString()),
         fee: {
-          paymentMethod: await ecdsaAccount.getSelfPaymentMethod(
-            new SponsoredFeePaymentMethod(sponsoredPFCContract.address)
+          paymentMethod: await accountManager.getSelfPaymentMethod(
+            await this.getFeePaymentMethod(await accountManager.getWallet())
           ),
         },
         universalDeploy: true,
@@ -135,28 +223,32 @@ export class AztecWallet {
 
       const provenInteraction = await deployMethod.prove(deployOpts);
       const receipt = await provenInteraction.send().wait();
+      this.markFeeClaimSpent();
 
       logger.info('Account deployed', receipt);
 
       // Get the wallet and store account data
-      const ecdsaWallet = await ecdsaAccount.getWallet();
+      const accountWallet = await accountManager.getWallet();
       const accountData: AccountData = {
-        address: ecdsaWallet.getAddress().toString(),
-        signingKey: signingKey.toString('hex'),
-        secretKey: secretKey.toString(),
-        salt: salt.toString(),
+        address: accountWallet.getAddress().toString(),
+        ...keys,
       };
 
       // Store the account in local storage
-      if (typeof window !== 'undefined') {
-        localStorage.setItem(LocalStorageKey, JSON.stringify(accountData));
-      }
+      const accounts = this.getStoredAccounts();
+      const keystore = await encryptAccount(accountData, password);
+      this.setStoredAccounts([
+        ...accounts,
+        { name: name?.trim() || `Account ${accounts.length + 1}`, keystore },
+      ]);
+      this.setSelectedAddress(accountData.address);
 
       // Register the account with PXE
-      await ecdsaAccount.register();
-      this.connectedAccount = ecdsaWallet;
+      await accountManager.register();
+      this.connectedAccount = accountWallet;
+      this.connectedAccountData = accountData;
 
-      logger.info('Account created and connected successfully');
+      logger.info(`${type} account created and connected successfully`);
       return accountData;
     } catch (error) {
       logger.error('Failed to create account:', error);
@@ -165,31 +257,44 @@ export class AztecWallet {
   }
 
   /**
-   * Connect to an existing account
+   * Unlock the selected stored account with its password and connect to it
    */
-  async connectAccount(): Promise<AccountData | null> {
+  async connectAccount(password: string): Promise<AccountData | null> {
+    const selected = this.getSelectedAccount();
+    if (!selected) {
+      logger.info('No stored account found');
+      return null;
+    }
+    return this.switchAccount(selected.address, password);
+  }
+
+  /**
+   * Unlock a stored account with its password and connect to it in place of the current one.
+   * A plaintext account saved before the keystore existed is encrypted with the given password.
+   */
+  async switchAccount(address: string, password: string): Promise<AccountData> {
     if (!this.pxe) {
       throw new Error('Wallet not initialized. Call initialize() first.');
     }
 
     try {
-      const accountData = this.getStoredAccount();
-      if (!accountData) {
-        logger.info('No stored account found');
-        return null;
-      }
+      const { keystore } = this.findStoredAccount(address);
+      const accountData = isEncryptedKeystore(keystore) ? await decryptAccount(keystore, password) : keystore;
 
-      const ecdsaAccount = await getEcdsaRAccount(
-        this.pxe,
-        Fr.fromString(accountData.secretKey),
-        Buffer.from(accountData.signingKey, 'hex'),
-        Fr.fromString(accountData.salt)
-      );
+      const accountManager = await getAccountManager(this.pxe, accountData);
+
+      await accountManager.register();
+      const accountWallet = await accountManager.getWallet();
 
-      await ecdsaAccount.register();
-      const ecdsaWallet = await ecdsaAccount.getWallet();
+      if (!isEncryptedKeystore(keystore)) {
+        const encrypted = await encryptAccount(accountData, password);
+        this.updateStoredAccount(address, account => ({ ...account, keystore: encrypted }));
+        logger.info('Migrated plaintext account to an encrypted keystore');
+      }
 
-      this.connectedAccount = ecdsaWallet;
+      this.connectedAccount = accountWallet;
+      this.connectedAccountData = accountData;
+      this.setSelectedAddress(accountData.address);
       logger.info('Account connected successfully');
       return accountData;
     } catch (error) {
@@ -198,6 +303,79 @@ export class AztecWallet {
     }
   }
 
+  /**
+   * Export the connected account and every known election as an encrypted backup file.
+   * The backup password is independent of the account's keystore password.
+   */
+  async exportAccount(password: string): Promise<string> {
+    if (!this.connectedAccountData) {
+      throw new Error('No account connected');
+    }
+
+    try {
+      const accountData = this.connectedAccountData;
+      const stored = this.getStoredAccounts().find(account => isSameAddress(account.keystore.address, accountData.address));
+      const { electionRegistry } = await import('./contracts/electionRegistry');
+
+      const backup = await encryptBackup(
+        {
+          name: stored ? stored.name : `Account ${this.getStoredAccounts().length + 1}`,
+          account: accountData,
+          elections: electionRegistry.listElections(),
+        },
+        password
+      );
+      logger.info('Account exported');
+      return JSON.stringify(backup, null, 2);
+    } catch (error) {
+      logger.error('Failed to export account:', error);
+      throw new Error(`Failed to export account: ${error}`);
+    }
+  }
+
+  /**
+   * Import an account backup, re-register the account and its elections with PXE and connect to it.
+   * The account is stored encrypted with the backup password.
+   */
+  async importAccount(json: string, password: string): Promise<AccountData> {
+    if (!this.pxe) {
+      throw new Error('Wallet not initialized. Call initialize() first.');
+    }
+
+    try {
+      const backup = parseBackup(json);
+      if (this.getStoredAccounts().some(account => isSameAddress(account.keystore.address, backup.address))) {
+        throw new Error(`Account ${backup.address} is already stored in this browser`);
+      }
+      const { name, account: accountData, elections } = await decryptBackup(backup, password);
+
+      const accountManager = await getAccountManager(this.pxe, accountData);
+
+      // Register the account with PXE
+      await accountManager.register();
+      const accountWallet = await accountManager.getWallet();
+      if (!accountWallet.getAddress().equals(AztecAddress.fromString(accountData.address))) {
+        throw new Error('Backup keys do not match its address');
+      }
+
+      const { electionRegistry } = await import('./contracts/electionRegistry');
+      const restored = await electionRegistry.restoreElections(elections);
+      logger.info(`Restored ${restored.length} elections from backup`);
+
+      const keystore = await encryptAccount(accountData, password);
+      this.setStoredAccounts([...this.getStoredAccounts(), { name, keystore }]);
+      this.setSelectedAddress(accountData.address);
+
+      this.connectedAccount = accountWallet;
+      this.connectedAccountData = accountData;
+      logger.info('Account imported and connected successfully');
+      return accountData;
+    } catch (error) {
+      logger.error('Failed to import account:', error);
+      throw new Error(`Failed to import account: ${error}`);
+    }
+  }
+
   /**
    * Connect to a test account (for development/testing)
    */
@@ -223,10 +401,12 @@ export class AztecWallet {
 
       const accountData: AccountData = {
         address: wallet.getAddress().toString(),
+        type: 'schnorr',
         signingKey: account.signingKey.toString('hex'),
         secretKey: account.secret.toString(),
         salt: account.salt.toString(),
       };
+      this.connectedAccountData = accountData;
 
       logger.info('Test account connected successfully');
       return accountData;
@@ -241,6 +421,7 @@ export class AztecWallet {
    */
   disconnectAccount(): void {
     this.connectedAccount = null;
+    this.connectedAccountData = null;
     logger.info('Account disconnected');
   }
 
@@ -252,9 +433,9 @@ export class AztecWallet {
   }
 
   /**
-   * Send a transaction with sponsored fee payment
+   * Send a transaction, paying with the selected fee strategy
    */
-  async sendTransaction(interaction: ContractFunctionInteraction): Promise<any> {
+  async sendTransaction(interaction: ContractFunctionInteraction): Promise<TxReceipt> {
     if (!this.connectedAccount) {
       throw new Error('No account connected. Please connect an account first.');
     }
@@ -264,16 +445,14 @@ export class AztecWallet {
     }
 
     try {
-      const sponsoredPFCContract = await this.getSponsoredPFCContract();
       const provenInteraction = await interaction.prove({
         fee: {
-          paymentMethod: new SponsoredFeePaymentMethod(
-            sponsoredPFCContract.address
-          ),
+          paymentMethod: await this.getFeePaymentMethod(this.connectedAccount),
         },
       });
 
       const receipt = await provenInteraction.send().wait();
+      this.markFeeClaimSpent();
       logger.info('Transaction sent successfully', receipt);
       return receipt;
     } catch (error) {
@@ -283,9 +462,42 @@ export class AztecWallet {
   }
 
   /**
-   * Simulate a transaction without sending it
+   * Deploy a contract, paying with the selected fee strategy
+   */
+  async deployContract<T extends ContractBase>(
+    deployMethod: DeployMethod<T>,
+    contractAddressSalt: Fr = Fr.random(),
+  ): Promise<DeployReceipt<T>> {
+    if (!this.connectedAccount) {
+      throw new Error('No account connected. Please connect an account first.');
+    }
+
+    if (!this.pxe) {
+      throw new Error('Wallet not initialized. Call initialize() first.');
+    }
+
+    try {
+      const provenDeployment = await deployMethod.prove({
+        contractAddressSalt,
+        fee: {
+          paymentMethod: await this.getFeePaymentMethod(this.connectedAccount),
+        },
+      });
+
+      const receipt = await provenDeployment.send().wait();
+      this.markFeeClaimSpent();
+      logger.info('Contract deployed successfully', receipt);
+      return receipt;
+    } catch (error) {
+      logger.error('Failed to deploy contract:', error);
+      throw new Error(`Failed to deploy contract: ${error}`);
+    }
+  }
+
+  /**
+   * Simulate a transaction without sending it. The result is left undecoded for the caller to check.
    */
-  async simulateTransaction(interaction: ContractFunctionInteraction): Promise<any> {
+  async simulateTransaction(interaction: ContractFunctionInteraction): Promise<unknown> {
     if (!this.connectedAccount) {
       throw new Error('No account connected. Please connect an account first.');
     }
@@ -343,6 +555,55 @@ export class AztecWallet {
     }
   }
 
+  /**
+   * Get the latest block number known to the node
+   */
+  async getBlockNumber(): Promise<number> {
+    if (!this.aztecNode) {
+      throw new Error('Not connected to a node. Call connectNode() first.');
+    }
+
+    try {
+      return await this.aztecNode.getBlockNumber();
+    } catch (error) {
+      logger.error('Failed to get block number:', error);
+      throw new Error(`Failed to get block number: ${error}`);
+    }
+  }
+
+  /**
+   * Check whether a siloed nullifier has been included in the node's nullifier tree
+   */
+  async nullifierExists(nullifier: Fr): Promise<boolean> {
+    if (!this.aztecNode) {
+      throw new Error('Wallet not initialized. Call initialize() first.');
+    }
+
+    try {
+      const witness = await this.aztecNode.getNullifierMembershipWitness('latest', nullifier);
+      return witness !== undefined;
+    } catch (error) {
+      logger.error('Failed to look up nullifier:', error);
+      throw new Error(`Failed to look up nullifier: ${error}`);
+    }
+  }
+
+  /**
+   * Read a contract's public storage slot from the node at a block, without simulating a call
+   */
+  async readPublicStorage(contract: AztecAddress, slot: Fr, blockNumber: number | 'latest' = 'latest'): Promise<Fr> {
+    if (!this.aztecNode) {
+      throw new Error('Not connected to a node. Call connectNode() first.');
+    }
+
+    try {
+      return await this.aztecNode.getPublicStorageAt(blockNumber, contract, slot);
+    } catch (error) {
+      logger.error('Failed to read public storage:', error);
+      throw new Error(`Failed to read public storage: ${error}`);
+    }
+  }
+
   /**
    * Get the PXE instance
    */
@@ -353,6 +614,102 @@ export class AztecWallet {
     return this.pxe;
   }
 
+  /**
+   * Get the fee strategy for this node: one chosen in the UI, else the network's configured default
+   */
+  getFeeStrategy(): FeeStrategy {
+    const chosen = this.getStoredFeeStrategies()[this.nodeUrl];
+    return chosen || NETWORK_FEE_STRATEGIES[this.nodeUrl] || DEFAULT_FEE_STRATEGY;
+  }
+
+  /**
+   * Choose how fees are paid on this node. Pass null to go back to the network's default.
+   */
+  setFeeStrategy(strategy: FeeStrategy | null): void {
+    const strategies = this.getStoredFeeStrategies();
+    if (strategy) {
+      strategies[this.nodeUrl] = validateFeeStrategy(strategy);
+    } else {
+      delete strategies[this.nodeUrl];
+    }
+
+    if (typeof window !== 'undefined') {
+      localStorage.setItem(FeeStrategyStorageKey, JSON.stringify(strategies));
+    }
+    logger.info(`Fee strategy set to ${this.getFeeStrategy().method}`);
+  }
+
+  /**
+   * Build the payment method for the selected fee strategy, paid for by the given account
+   */
+  private async getFeePaymentMethod(sender: AccountWallet): Promise<FeePaymentMethod> {
+    const strategy = this.getFeeStrategy();
+    switch (strategy.method) {
+      case 'sponsored': {
+        const sponsoredPFCContract = await this.getSponsoredPFCContract();
+        return new SponsoredFeePaymentMethod(sponsoredPFCContract.address);
+      }
+      case 'fee-juice':
+        return new FeeJuicePaymentMethod(sender.getAddress());
+      case 'fpc': {
+        const fpc = AztecAddress.fromString(strategy.fpc);
+        await this.registerFeePaymentContract(fpc);
+        return strategy.mode === 'private'
+          ? new PrivateFeePaymentMethod(fpc, sender)
+          : new PublicFeePaymentMethod(fpc, sender);
+      }
+      case 'fee-juice-claim':
+        return new FeeJuicePaymentMethodWithClaim(sender, {
+          claimAmount: BigInt(strategy.claim.claimAmount),
+          claimSecret: Fr.fromString(strategy.claim.claimSecret),
+          messageLeafIndex: BigInt(strategy.claim.messageLeafIndex),
+        });
+      default:
+        throw new Error(`Unsupported fee method ${(strategy as FeeStrategy).method}`);
+    }
+  }
+
+  /**
+   * Register an FPC with PXE so its private functions can be executed, fetching its instance from the node
+   */
+  private async registerFeePaymentContract(fpc: AztecAddress): Promise<void> {
+    const { contractInstance } = await this.pxe.getContractMetadata(fpc);
+    if (contractInstance) {
+      return;
+    }
+
+    const instance = await this.aztecNode.getContract(fpc);
+    if (!instance) {
+      throw new Error(`Fee payment contract ${fpc.toString()} is not deployed on this network`);
+    }
+    await this.pxe.registerContract({ instance, artifact: FPCContractArtifact });
+  }
+
+  /**
+   * A fee juice claim can only be spent once; later transactions pay from the claimed balance
+   */
+  private markFeeClaimSpent(): void {
+    if (this.getFeeStrategy().method === 'fee-juice-claim') {
+      this.setFeeStrategy({ method: 'fee-juice' });
+    }
+  }
+
+  /**
+   * Get fee strategies chosen in the UI from localStorage
+   */
+  private getStoredFeeStrategies(): Record<string, FeeStrategy> {
+    try {
+      if (typeof window === 'undefined') {
+        return {};
+      }
+      const strategies = localStorage.getItem(FeeStrategyStorageKey);
+      return strategies ? JSON.parse(strategies) as Record<string, FeeStrategy> : {};
+    } catch (error) {
+      logger.error('Failed to parse stored fee strategies:', error);
+      return {};
+    }
+  }
+
   /**
    * Internal method to get the Sponsored FPC Contract
    */
@@ -368,34 +725,136 @@ export class AztecWallet {
   }
 
   /**
-   * Get stored account data from localStorage
+   * Get stored accounts from localStorage, moving a single account stored by earlier versions into the list
    */
-  private getStoredAccount(): AccountData | null {
+  private getStoredAccounts(): StoredAccount[] {
     try {
       if (typeof window === 'undefined') {
-        return null;
+        return [];
       }
-      const account = localStorage.getItem(LocalStorageKey);
-      if (!account) {
-        return null;
+      const accounts = localStorage.getItem(LocalStorageKey);
+      if (accounts) {
+        return JSON.parse(accounts) as StoredAccount[];
       }
-      return JSON.parse(account) as AccountData;
+
+      const legacy = localStorage.getItem(LegacyLocalStorageKey);
+      if (!legacy) {
+        return [];
+      }
+      const migrated: StoredAccount[] = [
+        { name: 'Account 1', keystore: JSON.parse(legacy) as EncryptedKeystore | AccountData },
+      ];
+      this.setStoredAccounts(migrated);
+      localStorage.removeItem(LegacyLocalStorageKey);
+      return migrated;
     } catch (error) {
-      logger.error('Failed to parse stored account:', error);
-      return null;
+      logger.error('Failed to parse stored accounts:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Persist accounts to localStorage
+   */
+  private setStoredAccounts(accounts: StoredAccount[]): void {
+    if (typeof window !== 'undefined') {
+      localStorage.setItem(LocalStorageKey, JSON.stringify(accounts));
+    }
+  }
+
+  /**
+   * Get a stored account by address
+   */
+  private findStoredAccount(address: string): StoredAccount {
+    const account = this.getStoredAccounts().find(stored => isSameAddress(stored.keystore.address, address));
+    if (!account) {
+      throw new Error(`No stored account with address ${address}`);
+    }
+    return account;
+  }
+
+  /**
+   * Replace a stored account by address
+   */
+  private updateStoredAccount(address: string, update: (account: StoredAccount) => StoredAccount): void {
+    this.findStoredAccount(address);
+    this.setStoredAccounts(
+      this.getStoredAccounts().map(stored =>
+        isSameAddress(stored.keystore.address, address) ? update(stored) : stored
+      )
+    );
+  }
+
+  /**
+   * Get the account connectAccount() unlocks: the last one used, or the first stored
+   */
+  private getSelectedAccount(): StoredAccountInfo | null {
+    const accounts = this.listAccounts();
+    const selected = typeof window !== 'undefined' ? localStorage.getItem(SelectedAccountStorageKey) : null;
+    return accounts.find(account => !!selected && isSameAddress(account.address, selected)) || accounts[0] || null;
+  }
+
+  /**
+   * Remember the last account used
+   */
+  private setSelectedAddress(address: string | null): void {
+    if (typeof window === 'undefined') {
+      return;
+    }
+    if (address) {
+      localStorage.setItem(SelectedAccountStorageKey, address);
+    } else {
+      localStorage.removeItem(SelectedAccountStorageKey);
+    }
+  }
+
+  /**
+   * Rename a stored account
+   */
+  renameAccount(address: string, name: string): void {
+    if (!name.trim()) {
+      throw new Error('Account name cannot be empty');
+    }
+    this.updateStoredAccount(address, account => ({ ...account, name: name.trim() }));
+    logger.info('Account renamed');
+  }
+
+  /**
+   * Remove a stored account, disconnecting it first if it is connected. Its keys are gone for good.
+   */
+  removeAccount(address: string): void {
+    this.findStoredAccount(address);
+    if (this.connectedAccount && isSameAddress(this.connectedAccount.getAddress().toString(), address)) {
+      this.disconnectAccount();
     }
+
+    this.setStoredAccounts(
+      this.getStoredAccounts().filter(stored => !isSameAddress(stored.keystore.address, address))
+    );
+    const selected = this.getSelectedAccount();
+    this.setSelectedAddress(selected ? selected.address : null);
+    logger.info('Account removed');
   }
 
   /**
-   * Clear stored account data
+   * Clear every stored account
    */
   clearStoredAccount(): void {
     if (typeof window !== 'undefined') {
       localStorage.removeItem(LocalStorageKey);
+      localStorage.removeItem(LegacyLocalStorageKey);
+      localStorage.removeItem(SelectedAccountStorageKey);
     }
     logger.info('Stored account data cleared');
   }
 
+  /**
+   * Check if the node client is connected, which is all read-only results need
+   */
+  isNodeConnected(): boolean {
+    return !!this.aztecNode;
+  }
+
   /**
    * Check if wallet is initialized
    */
@@ -411,5 +870,16 @@ export class AztecWallet {
   }
 }
 
+/**
+ * Summarize a stored account without its keys
+ */
+function toAccountInfo({ name, keystore }: StoredAccount): StoredAccountInfo {
+  return { name, address: keystore.address, encrypted: isEncryptedKeystore(keystore) };
+}
+
+function isSameAddress(a: string, b: string): boolean {
+  return a.toLowerCase() === b.toLowerCase();
+}
+
 // Export a singleton instance for easy use
 export const wallet = new AztecWallet(); 
\ No newline at end of file
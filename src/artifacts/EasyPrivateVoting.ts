@@ -70,14 +70,14 @@ export class EasyPrivateVotingContract extends ContractBase {
   /**
    * Creates a tx to deploy a new instance of this contract.
    */
-  public static deploy(wallet: Wallet, admin: AztecAddressLike) {
+  public static deploy(wallet: Wallet, admin: AztecAddressLike, ballot_hash: FieldLike, start_block: (bigint | number), end_block: (bigint | number), voter_root: FieldLike, sealed: boolean, ballot_sender: AztecAddressLike) {
     return new DeployMethod<EasyPrivateVotingContract>(PublicKeys.default(), wallet, EasyPrivateVotingContractArtifact, EasyPrivateVotingContract.at, Array.from(arguments).slice(1));
   }
 
   /**
    * Creates a tx to deploy a new instance of this contract using the specified public keys hash to derive the address.
    */
-  public static deployWithPublicKeys(publicKeys: PublicKeys, wallet: Wallet, admin: AztecAddressLike) {
+  public static deployWithPublicKeys(publicKeys: PublicKeys, wallet: Wallet, admin: AztecAddressLike, ballot_hash: FieldLike, start_block: (bigint | number), end_block: (bigint | number), voter_root: FieldLike, sealed: boolean, ballot_sender: AztecAddressLike) {
     return new DeployMethod<EasyPrivateVotingContract>(publicKeys, wallet, EasyPrivateVotingContractArtifact, EasyPrivateVotingContract.at, Array.from(arguments).slice(2));
   }
 
@@ -115,7 +115,7 @@ export class EasyPrivateVotingContract extends ContractBase {
   }
   
 
-  public static get storage(): ContractStorageLayout<'admin' | 'tally' | 'vote_ended' | 'active_at_block'> {
+  public static get storage(): ContractStorageLayout<'admin' | 'tally' | 'state' | 'active_at_block' | 'ballot_hash' | 'start_block' | 'end_block' | 'voter_root' | 'ranked_ballots' | 'ranked_ballot_count' | 'round' | 'ranked_round_start' | 'vote_receipts' | 'sealed' | 'ballot_sender' | 'sealed_ballot_count' | 'revealed_ballot_count' | 'sealed_ballots' | 'sealed_tallies' | 'pending_admin' | 'co_admins' | 'end_vote_threshold' | 'end_vote_approvals'> {
       return {
         admin: {
       slot: new Fr(1n),
@@ -123,50 +123,205 @@ export class EasyPrivateVotingContract extends ContractBase {
 tally: {
       slot: new Fr(2n),
     },
-vote_ended: {
+state: {
       slot: new Fr(3n),
     },
 active_at_block: {
       slot: new Fr(4n),
+    },
+ballot_hash: {
+      slot: new Fr(6n),
+    },
+start_block: {
+      slot: new Fr(8n),
+    },
+end_block: {
+      slot: new Fr(9n),
+    },
+voter_root: {
+      slot: new Fr(10n),
+    },
+ranked_ballots: {
+      slot: new Fr(11n),
+    },
+ranked_ballot_count: {
+      slot: new Fr(12n),
+    },
+round: {
+      slot: new Fr(13n),
+    },
+ranked_round_start: {
+      slot: new Fr(14n),
+    },
+vote_receipts: {
+      slot: new Fr(15n),
+    },
+sealed: {
+      slot: new Fr(16n),
+    },
+ballot_sender: {
+      slot: new Fr(18n),
+    },
+sealed_ballot_count: {
+      slot: new Fr(20n),
+    },
+revealed_ballot_count: {
+      slot: new Fr(21n),
+    },
+sealed_ballots: {
+      slot: new Fr(22n),
+    },
+sealed_tallies: {
+      slot: new Fr(23n),
+    },
+pending_admin: {
+      slot: new Fr(24n),
+    },
+co_admins: {
+      slot: new Fr(25n),
+    },
+end_vote_threshold: {
+      slot: new Fr(29n),
+    },
+end_vote_approvals: {
+      slot: new Fr(30n),
     }
-      } as ContractStorageLayout<'admin' | 'tally' | 'vote_ended' | 'active_at_block'>;
+      } as ContractStorageLayout<'admin' | 'tally' | 'state' | 'active_at_block' | 'ballot_hash' | 'start_block' | 'end_block' | 'voter_root' | 'ranked_ballots' | 'ranked_ballot_count' | 'round' | 'ranked_round_start' | 'vote_receipts' | 'sealed' | 'ballot_sender' | 'sealed_ballot_count' | 'revealed_ballot_count' | 'sealed_ballots' | 'sealed_tallies' | 'pending_admin' | 'co_admins' | 'end_vote_threshold' | 'end_vote_approvals'>;
     }
     
 
   
+  public static get notes(): ContractNotes<'SealedBallotNote' | 'SealedTallyNote' | 'VoteReceiptNote'> {
+    return {
+      SealedBallotNote: {
+          id: new NoteSelector(0),
+        },
+SealedTallyNote: {
+          id: new NoteSelector(1),
+        },
+VoteReceiptNote: {
+          id: new NoteSelector(2),
+        }
+    } as ContractNotes<'SealedBallotNote' | 'SealedTallyNote' | 'VoteReceiptNote'>;
+  }
+    
 
   /** Type-safe wrappers for the public methods exposed by the contract. */
   public declare methods: {
     
-    /** cast_vote(candidate: field) */
-    cast_vote: ((candidate: FieldLike) => ContractFunctionInteraction) & Pick<ContractMethod, 'selector'>;
+    /** accept_admin() */
+    accept_admin: (() => ContractFunctionInteraction) & Pick<ContractMethod, 'selector'>;
+
+    /** cast_approval_vote(candidates: array, round: integer, tallier: struct, weight: field, voter_index: field, voter_path: array) */
+    cast_approval_vote: ((candidates: FieldLike[], round: (bigint | number), tallier: AztecAddressLike, weight: FieldLike, voter_index: FieldLike, voter_path: FieldLike[]) => ContractFunctionInteraction) & Pick<ContractMethod, 'selector'>;
+
+    /** cast_ranked_vote(rankings: array, round: integer, weight: field, voter_index: field, voter_path: array) */
+    cast_ranked_vote: ((rankings: FieldLike[], round: (bigint | number), weight: FieldLike, voter_index: FieldLike, voter_path: FieldLike[]) => ContractFunctionInteraction) & Pick<ContractMethod, 'selector'>;
+
+    /** cast_vote(candidate: field, round: integer, tallier: struct, weight: field, voter_index: field, voter_path: array) */
+    cast_vote: ((candidate: FieldLike, round: (bigint | number), tallier: AztecAddressLike, weight: FieldLike, voter_index: FieldLike, voter_path: FieldLike[]) => ContractFunctionInteraction) & Pick<ContractMethod, 'selector'>;
+
+    /** change_vote(new_candidate: field, round: integer) */
+    change_vote: ((new_candidate: FieldLike, round: (bigint | number)) => ContractFunctionInteraction) & Pick<ContractMethod, 'selector'>;
 
-    /** constructor(admin: struct) */
-    constructor: ((admin: AztecAddressLike) => ContractFunctionInteraction) & Pick<ContractMethod, 'selector'>;
+    /** constructor(admin: struct, ballot_hash: field, start_block: integer, end_block: integer, voter_root: field, sealed: boolean, ballot_sender: struct) */
+    constructor: ((admin: AztecAddressLike, ballot_hash: FieldLike, start_block: (bigint | number), end_block: (bigint | number), voter_root: FieldLike, sealed: boolean, ballot_sender: AztecAddressLike) => ContractFunctionInteraction) & Pick<ContractMethod, 'selector'>;
 
     /** end_vote() */
     end_vote: (() => ContractFunctionInteraction) & Pick<ContractMethod, 'selector'>;
 
+    /** finalize_vote() */
+    finalize_vote: (() => ContractFunctionInteraction) & Pick<ContractMethod, 'selector'>;
+
     /** get_active_at_block() */
     get_active_at_block: (() => ContractFunctionInteraction) & Pick<ContractMethod, 'selector'>;
 
     /** get_admin() */
     get_admin: (() => ContractFunctionInteraction) & Pick<ContractMethod, 'selector'>;
 
+    /** get_admins() */
+    get_admins: (() => ContractFunctionInteraction) & Pick<ContractMethod, 'selector'>;
+
+    /** get_ballot_hash() */
+    get_ballot_hash: (() => ContractFunctionInteraction) & Pick<ContractMethod, 'selector'>;
+
+    /** get_election_state() */
+    get_election_state: (() => ContractFunctionInteraction) & Pick<ContractMethod, 'selector'>;
+
+    /** get_end_vote_approvals() */
+    get_end_vote_approvals: (() => ContractFunctionInteraction) & Pick<ContractMethod, 'selector'>;
+
+    /** get_pending_admin() */
+    get_pending_admin: (() => ContractFunctionInteraction) & Pick<ContractMethod, 'selector'>;
+
+    /** get_ranked_ballot(index: integer) */
+    get_ranked_ballot: ((index: (bigint | number)) => ContractFunctionInteraction) & Pick<ContractMethod, 'selector'>;
+
+    /** get_ranked_ballot_count() */
+    get_ranked_ballot_count: (() => ContractFunctionInteraction) & Pick<ContractMethod, 'selector'>;
+
+    /** get_ranked_round_start() */
+    get_ranked_round_start: (() => ContractFunctionInteraction) & Pick<ContractMethod, 'selector'>;
+
+    /** get_round() */
+    get_round: (() => ContractFunctionInteraction) & Pick<ContractMethod, 'selector'>;
+
+    /** get_sealed() */
+    get_sealed: (() => ContractFunctionInteraction) & Pick<ContractMethod, 'selector'>;
+
+    /** get_sealed_ballot_counts(round: integer) */
+    get_sealed_ballot_counts: ((round: (bigint | number)) => ContractFunctionInteraction) & Pick<ContractMethod, 'selector'>;
+
     /** get_vote(candidate: field) */
     get_vote: ((candidate: FieldLike) => ContractFunctionInteraction) & Pick<ContractMethod, 'selector'>;
 
     /** get_vote_ended() */
     get_vote_ended: (() => ContractFunctionInteraction) & Pick<ContractMethod, 'selector'>;
 
+    /** get_vote_in_round(round: integer, candidate: field) */
+    get_vote_in_round: ((round: (bigint | number), candidate: FieldLike) => ContractFunctionInteraction) & Pick<ContractMethod, 'selector'>;
+
+    /** get_vote_nullifier(voter: struct, round: integer) */
+    get_vote_nullifier: ((voter: AztecAddressLike, round: (bigint | number)) => ContractFunctionInteraction) & Pick<ContractMethod, 'selector'>;
+
+    /** get_voter_root() */
+    get_voter_root: (() => ContractFunctionInteraction) & Pick<ContractMethod, 'selector'>;
+
+    /** get_voting_window() */
+    get_voting_window: (() => ContractFunctionInteraction) & Pick<ContractMethod, 'selector'>;
+
+    /** is_tally_sealed() */
+    is_tally_sealed: (() => ContractFunctionInteraction) & Pick<ContractMethod, 'selector'>;
+
+    /** open_vote() */
+    open_vote: (() => ContractFunctionInteraction) & Pick<ContractMethod, 'selector'>;
+
     /** process_message(message_ciphertext: struct, message_context: struct) */
     process_message: ((message_ciphertext: FieldLike[], message_context: { tx_hash: FieldLike, unique_note_hashes_in_tx: FieldLike[], first_nullifier_in_tx: FieldLike, recipient: AztecAddressLike }) => ContractFunctionInteraction) & Pick<ContractMethod, 'selector'>;
 
     /** public_dispatch(selector: field) */
     public_dispatch: ((selector: FieldLike) => ContractFunctionInteraction) & Pick<ContractMethod, 'selector'>;
 
+    /** publish_sealed_tally(round: integer) */
+    publish_sealed_tally: ((round: (bigint | number)) => ContractFunctionInteraction) & Pick<ContractMethod, 'selector'>;
+
+    /** reveal_sealed_ballots(round: integer) */
+    reveal_sealed_ballots: ((round: (bigint | number)) => ContractFunctionInteraction) & Pick<ContractMethod, 'selector'>;
+
+    /** set_co_admins(co_admins: array, end_vote_threshold: integer) */
+    set_co_admins: ((co_admins: AztecAddressLike[], end_vote_threshold: (bigint | number)) => ContractFunctionInteraction) & Pick<ContractMethod, 'selector'>;
+
+    /** set_voter_root(voter_root: field) */
+    set_voter_root: ((voter_root: FieldLike) => ContractFunctionInteraction) & Pick<ContractMethod, 'selector'>;
+
+    /** start_new_round(start_block: integer, end_block: integer) */
+    start_new_round: ((start_block: (bigint | number), end_block: (bigint | number)) => ContractFunctionInteraction) & Pick<ContractMethod, 'selector'>;
+
     /** sync_private_state() */
     sync_private_state: (() => ContractFunctionInteraction) & Pick<ContractMethod, 'selector'>;
+
+    /** transfer_admin(new_admin: struct) */
+    transfer_admin: ((new_admin: AztecAddressLike) => ContractFunctionInteraction) & Pick<ContractMethod, 'selector'>;
   };
 
   